@@ -1,28 +1,45 @@
 import { type NextRequest, NextResponse } from "next/server"
-
-// API configurations
-const TATUM_API_KEY = process.env.TATUM_API_KEY || "your-tatum-api-key"
-const TATUM_BASE_URL = "https://api.tatum.io/v3"
-const COINGECKO_BASE_URL = "https://api.coingecko.co/api/v3"
-const ETHERSCAN_API_KEY = process.env.ETHERSCAN_API_KEY || "YourApiKeyToken"
-const ETHERSCAN_BASE_URL = "https://api.etherscan.io/api"
-const ETHPLORER_BASE_URL = "https://api.ethplorer.io"
-
-// Add at the top, after imports
-const BLUECHIP_WHITELIST = [
-  // USDT
-  "0xdac17f958d2ee523a2206206994597c13d831ec7",
-  // USDC
-  "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48",
-  // WETH
-  "0xc02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2".toLowerCase(),
-  // LINK
-  "0x514910771af9ca656af840dff83e8264ecf986ca",
-  // Add more as needed
-]
-
-function isBluechipToken(address: string): boolean {
-  return BLUECHIP_WHITELIST.includes(address.toLowerCase())
+import { erc20Abi } from "viem"
+import { checkHolderBalances, getDefaultBalanceCheck, type BalanceCheck } from "@/lib/analysis/balances"
+import { analyzeBytecode, type BytecodeAnalysis } from "@/lib/analysis/bytecode"
+import { analyzeHolderClusters, getDefaultClusterAnalysis, type ClusterAnalysis } from "@/lib/analysis/clusters"
+import { analyzeCreatorHoldings, getDefaultCreatorHoldings, type CreatorHoldings } from "@/lib/analysis/creator"
+import {
+  analyzeDeployer,
+  classifyPriorToken,
+  getDefaultDeployerAnalysis,
+  wasLiquidityDrained,
+  type DeployerAnalysis,
+} from "@/lib/analysis/deployer"
+import { analyzeFees, getDefaultFeeAnalysis, type FeeAnalysis } from "@/lib/analysis/fees"
+import { analyzeHiddenOwner, getDefaultHiddenOwnerAnalysis, type HiddenOwnerAnalysis } from "@/lib/analysis/hidden-owner"
+import { classifyHolders, isInfrastructure, type LabeledHolder } from "@/lib/analysis/holders"
+import { analyzeHoneypot, getDefaultHoneypotAnalysis, type HoneypotAnalysis } from "@/lib/analysis/honeypot"
+import { analyzeLaunch, getDefaultLaunchAnalysis, type LaunchAnalysis } from "@/lib/analysis/launch"
+import { analyzeLiquidity, getDefaultLiquidityAnalysis, type LiquidityAnalysis } from "@/lib/analysis/liquidity"
+import { analyzeLpLocks, getDefaultLpLockAnalysis, type LpLockAnalysis } from "@/lib/analysis/lp-locks"
+import { getDefaultOwnershipAnalysis, resolveOwnership, type OwnershipAnalysis } from "@/lib/analysis/ownership"
+import { DIAMOND_CUT_SELECTOR, resolveDiamond, routedFindings } from "@/lib/analysis/diamond"
+import { resolveProxy, resolveUpgradeController, type ProxyResolution } from "@/lib/analysis/proxy"
+import {
+  analyzeTradingRestrictions,
+  getDefaultTradingRestrictionAnalysis,
+  type TradingRestrictionAnalysis,
+} from "@/lib/analysis/restrictions"
+import { analyzeSource, type BalanceWritePath, type SourceAnalysis } from "@/lib/analysis/solidity"
+import type { Capability, Confidence, LogicContract, PrivilegedFunction, SecurityFinding } from "@/lib/analysis/types"
+import { analyzeUpgradeHistory, getDefaultUpgradeHistory, type UpgradeHistory } from "@/lib/analysis/upgrades"
+import { DEFAULT_CHAIN_ID, getChain, type ChainConfig } from "@/lib/chains"
+import {
+  getProviders,
+  type ContractReader,
+  type MarketData,
+  type Providers,
+  type TokenHolder,
+} from "@/lib/providers"
+
+function isBluechipToken(chain: ChainConfig, address: string): boolean {
+  return chain.bluechips.some((bluechip) => bluechip.toLowerCase() === address.toLowerCase())
 }
 
 interface TokenMetadata {
@@ -33,20 +50,6 @@ interface TokenMetadata {
   contractAddress: string
 }
 
-interface MarketData {
-  price: number
-  marketCap: number
-  volume24h: number
-  priceChange24h: number
-  circulatingSupply: number
-  totalSupply: number
-  maxSupply: number | null
-  ath: number
-  athChangePercentage: number
-  atl: number
-  atlChangePercentage: number
-}
-
 interface SecurityAnalysis {
   isVerified: boolean
   hasProxyContract: boolean
@@ -54,21 +57,130 @@ interface SecurityAnalysis {
   hasPauseFunction: boolean
   hasBlacklistFunction: boolean
   hasOwnershipRenounced: boolean
+  // Current controller read on-chain (owner, admin or role admin) and what kind of account it is
+  ownership: OwnershipAnalysis
+  // Second owners, fake renounces and lock/unlock tricks, cross-checked against owner()
+  hiddenOwner: HiddenOwnerAnalysis
   rugPullRisk: number
+  findings: SecurityFinding[]
+  // Every owner- or role-guarded function, with the contract that implements it for source links
+  privileges: Array<PrivilegedFunction & { address: string }>
+  // Every non-constructor path that writes balance or supply storage; verified source only
+  balanceWrites: Array<BalanceWritePath & { address: string }>
+  // Max-tx, max-wallet, cooldown and trading switch settings and who can tighten them
+  tradingRestrictions: TradingRestrictionAnalysis
+  // Whether capabilities were read from verified source or inferred from deployed bytecode
+  analysisMethod: "source" | "bytecode" | "none"
+  // Whether the contract's code was looked up at all; false in light mode and when the analysis failed
+  codeInspected: boolean
+  confidence: Confidence
+  bytecode: BytecodeSummary | null
+  proxy: ProxyInfo | null
+  diamond: DiamondInfo | null
+}
+
+// Security analysis of a single contract's code, before ownership and proxy resolution
+type CodeAnalysis = Pick<
+  SecurityAnalysis,
+  | "isVerified"
+  | "hasProxyContract"
+  | "hasMintFunction"
+  | "hasPauseFunction"
+  | "hasBlacklistFunction"
+  | "findings"
+  | "privileges"
+  | "balanceWrites"
+  | "analysisMethod"
+  | "confidence"
+  | "bytecode"
+> & {
+  address: string
+  contractName: string | null
+}
+
+// A contract's code analysis, with its parsed source for the analyzers that read settings from storage
+interface InspectedCode {
+  analysis: CodeAnalysis
+  source: SourceAnalysis | null
+}
+
+// The token's security analysis, with the contracts holding its logic
+interface InspectedSecurity {
+  analysis: SecurityAnalysis
+  logic: LogicContract[]
+}
+
+interface ProxyInfo extends ProxyResolution {
+  upgradeController: OwnershipAnalysis
+  // Sub-report for the contract the proxy forwards to
+  implementationAnalysis: CodeAnalysis
+  upgradeHistory: UpgradeHistory
+}
+
+interface DiamondInfo {
+  // Whether diamondCut is routed, i.e. facets can still be added, replaced or removed
+  upgradeable: boolean
+  // Per-facet sub-reports; findings only cover the selectors the diamond routes to each facet
+  facets: Array<CodeAnalysis & { selectors: string[] }>
+}
+
+interface BytecodeSummary {
+  size: number
+  selectorCount: number
+  hasDelegatecall: boolean
+  hasSelfdestruct: boolean
+  minimalProxyImplementation: string | null
 }
 
 interface HolderAnalysis {
   totalHolders: number
+  // Whether totalHolders is the full count or only the length of the (capped) top-holder list
+  totalHoldersExact: boolean
+  // Top holders with what kind of address each is
+  holders: Array<LabeledHolder & { percentage: number }>
   top10HoldersPercentage: number
+  // Supply held by the deployer and owner themselves (creatorHoldings.directPercentage)
   creatorPercentage: number
+  creatorHoldings: CreatorHoldings
   distributionScore: number
+  // Share held by pools, burn addresses, lockers, vesting contracts, exchanges and bridges
+  infrastructurePercentage: number
+  // top10HoldersPercentage and distributionScore over the remaining float; these are what gets scored
+  adjustedTop10HoldersPercentage: number
+  adjustedDistributionScore: number
+  // Float holders grouped by shared funding; largestEffectiveHolder counts each group as one holder
+  clusters: ClusterAnalysis
+  // On-chain balanceOf() of the top holders summed and checked against totalSupply
+  balanceCheck: BalanceCheck
+  // Where each figure came from, e.g. totalHolders: "ethplorer", percentages: "totalSupply"
+  provenance: {
+    totalHolders: string
+    percentages: "totalSupply" | "topHolders"
+  }
+}
+
+// Page size of the top-holder list
+const TOP_HOLDERS_LIMIT = 100
+
+interface ChainSummary {
+  id: number
+  name: string
+  explorerName: string
+  explorerUrl: string
 }
 
 interface ComprehensiveAnalysis {
+  chain: ChainSummary
   tokenData: TokenMetadata
   marketData: MarketData | null
   securityAnalysis: SecurityAnalysis
   holderAnalysis: HolderAnalysis
+  liquidityAnalysis: LiquidityAnalysis
+  lpLockAnalysis: LpLockAnalysis
+  honeypotAnalysis: HoneypotAnalysis
+  feeAnalysis: FeeAnalysis
+  deployerAnalysis: DeployerAnalysis
+  launchAnalysis: LaunchAnalysis
   riskFactors: RiskFactor[]
   overallRiskScore: number
   riskLevel: "Very Low" | "Low" | "Medium" | "High" | "Very High"
@@ -84,7 +196,7 @@ interface RiskFactor {
 
 export async function POST(request: NextRequest) {
   try {
-    const { contractAddress } = await request.json()
+    const { contractAddress, chainId = DEFAULT_CHAIN_ID } = await request.json()
 
     if (!contractAddress) {
       return NextResponse.json({ error: "Contract address is required" }, { status: 400 })
@@ -94,16 +206,36 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Invalid Ethereum address format" }, { status: 400 })
     }
 
-    console.log(`Starting analysis for: ${contractAddress}`)
+    const chain = getChain(Number(chainId))
+    if (!chain) {
+      return NextResponse.json({ error: `Unsupported chain: ${chainId}` }, { status: 400 })
+    }
+
+    console.log(`Starting analysis for: ${contractAddress} on ${chain.name}`)
+
+    const providers = getProviders(chain)
+    const chainSummary: ChainSummary = {
+      id: chain.id,
+      name: chain.name,
+      explorerName: chain.explorerName,
+      explorerUrl: chain.explorerUrl,
+    }
 
     // If bluechip, return very low risk immediately
-    if (isBluechipToken(contractAddress)) {
-      const tokenData = await getTokenMetadata(contractAddress)
+    if (isBluechipToken(chain, contractAddress)) {
+      const tokenData = await getTokenMetadata(providers, contractAddress)
       const analysis: ComprehensiveAnalysis = {
+        chain: chainSummary,
         tokenData,
         marketData: null,
         securityAnalysis: getDefaultSecurityAnalysis(),
         holderAnalysis: getDefaultHolderAnalysis(),
+        liquidityAnalysis: getDefaultLiquidityAnalysis(),
+        lpLockAnalysis: getDefaultLpLockAnalysis(),
+        honeypotAnalysis: getDefaultHoneypotAnalysis(),
+        feeAnalysis: getDefaultFeeAnalysis(),
+        deployerAnalysis: getDefaultDeployerAnalysis(),
+        launchAnalysis: getDefaultLaunchAnalysis(),
         riskFactors: [],
         overallRiskScore: 0,
         riskLevel: "Very Low",
@@ -112,36 +244,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(analysis)
     }
 
-    const [tokenData, marketData, securityAnalysis, holderAnalysis] = await Promise.allSettled([
-      getTokenMetadata(contractAddress),
-      getMarketData(contractAddress),
-      performSecurityAnalysis(contractAddress),
-      analyzeHolderDistribution(contractAddress),
-    ])
-
-    // Only use data if fulfilled
-    const resolvedTokenData = tokenData.status === "fulfilled" ? tokenData.value : getDefaultTokenData(contractAddress)
-    const resolvedMarketData = marketData.status === "fulfilled" ? marketData.value : null
-    const resolvedSecurityAnalysis = securityAnalysis.status === "fulfilled" ? securityAnalysis.value : getDefaultSecurityAnalysis()
-    const resolvedHolderAnalysis = holderAnalysis.status === "fulfilled" ? holderAnalysis.value : getDefaultHolderAnalysis()
-
-    // Only include risk factors for present data
-    const analysis: ComprehensiveAnalysis = {
-      tokenData: resolvedTokenData,
-      marketData: resolvedMarketData,
-      securityAnalysis: resolvedSecurityAnalysis,
-      holderAnalysis: resolvedHolderAnalysis,
-      riskFactors: [],
-      overallRiskScore: 0,
-      riskLevel: "Medium",
-      recommendation: "",
-    }
-
-    // Only add risk factors for available data
-    analysis.riskFactors = identifyRiskFactorsFiltered(analysis)
-    analysis.overallRiskScore = calculateOverallRiskScore(analysis.riskFactors)
-    analysis.riskLevel = determineRiskLevel(analysis.overallRiskScore)
-    analysis.recommendation = generateRecommendation(analysis)
+    const analysis = await runAnalysis(providers, chain, chainSummary, contractAddress, "full")
 
     console.log(`Analysis completed. Risk score: ${analysis.overallRiskScore}`)
 
@@ -152,186 +255,501 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function getTokenMetadata(contractAddress: string): Promise<TokenMetadata> {
-  const [name, symbol, decimals, totalSupply] = await Promise.allSettled([
-    callContractMethod(contractAddress, "name", []),
-    callContractMethod(contractAddress, "symbol", []),
-    callContractMethod(contractAddress, "decimals", []),
-    callContractMethod(contractAddress, "totalSupply", []),
+// "light" only reads metadata, market data and liquidity. It is used to score the other tokens a
+// deployer launched without recursing into their deployers in turn.
+type AnalysisMode = "full" | "light"
+
+// Tokens from a deployer's history that are re-analyzed, most recent first
+const MAX_PRIOR_TOKENS = 10
+
+async function runAnalysis(
+  providers: Providers,
+  chain: ChainConfig,
+  chainSummary: ChainSummary,
+  contractAddress: string,
+  mode: AnalysisMode,
+): Promise<ComprehensiveAnalysis> {
+  const full = mode === "full"
+  // LP lock checks and the honeypot simulation work on the pools found by liquidity discovery,
+  // and the deployer profile and LP holder classes on the creation record
+  const liquidity = analyzeLiquidity(providers.contractReader, chain, contractAddress)
+  const creation = full
+    ? providers.sourceProvider.getContractCreation(contractAddress).catch((error) => {
+        console.error("Error fetching contract creation:", error)
+        return null
+      })
+    : Promise.resolve(null)
+  const inspection: Promise<InspectedSecurity> = full
+    ? performSecurityAnalysis(providers, contractAddress)
+    : Promise.resolve({ analysis: getDefaultSecurityAnalysis(), logic: [] })
+  const security = inspection.then(({ analysis }) => analysis)
+  const deployer = creation.then((created) =>
+    full ? analyzeDeployer(providers, chain, contractAddress, created) : getDefaultDeployerAnalysis(),
+  )
+  // Creator holdings need the deployer, the owner and the creation block
+  const creator = Promise.all([deployer.catch(() => getDefaultDeployerAnalysis()), security]).then(
+    ([{ deployer: deployerAddress, creationBlock }, { ownership }]) =>
+      analyzeCreatorHoldings(providers, contractAddress, deployerAddress, ownership.controller, creationBlock),
+  )
+  const [
+    tokenData,
+    marketData,
+    securityAnalysis,
+    holderAnalysis,
+    liquidityAnalysis,
+    lpLockAnalysis,
+    honeypotAnalysis,
+    feeAnalysis,
+    deployerAnalysis,
+    launchAnalysis,
+  ] = await Promise.allSettled([
+    getTokenMetadata(providers, contractAddress),
+    getMarketData(providers, contractAddress),
+    security,
+    full ? analyzeHolderDistribution(providers, chain, contractAddress, liquidity, creator) : getDefaultHolderAnalysis(),
+    liquidity,
+    full
+      ? Promise.all([liquidity, creation]).then(([pools, created]) =>
+          analyzeLpLocks(providers, chain, contractAddress, pools, created?.creator ?? null),
+        )
+      : getDefaultLpLockAnalysis(),
+    full
+      ? liquidity.then((pools) => analyzeHoneypot(providers.tradeSimulator, chain, contractAddress, pools))
+      : getDefaultHoneypotAnalysis(),
+    full
+      ? inspection.then(({ analysis: { findings, ownership }, logic }) =>
+          analyzeFees(providers, contractAddress, logic, findings, ownership),
+        )
+      : getDefaultFeeAnalysis(),
+    full ? deployer.then((profile) => scorePriorTokens(providers, chain, chainSummary, profile)) : deployer,
+    full
+      ? Promise.all([liquidity, deployer.catch(() => getDefaultDeployerAnalysis())]).then(([pools, profile]) =>
+          analyzeLaunch(providers, chain, contractAddress, pools, profile.deployer, profile.fundedWallets),
+        )
+      : getDefaultLaunchAnalysis(),
   ])
 
+  // Only use data if fulfilled
+  const resolvedTokenData = tokenData.status === "fulfilled" ? tokenData.value : getDefaultTokenData(contractAddress)
+  const resolvedMarketData = marketData.status === "fulfilled" ? marketData.value : null
+  const resolvedSecurityAnalysis = securityAnalysis.status === "fulfilled" ? securityAnalysis.value : getDefaultSecurityAnalysis()
+  const resolvedHolderAnalysis = holderAnalysis.status === "fulfilled" ? holderAnalysis.value : getDefaultHolderAnalysis()
+  const resolvedLiquidityAnalysis =
+    liquidityAnalysis.status === "fulfilled" ? liquidityAnalysis.value : getDefaultLiquidityAnalysis()
+  if (resolvedMarketData && resolvedMarketData.marketCap > 0 && resolvedLiquidityAnalysis.fullyValued) {
+    resolvedLiquidityAnalysis.liquidityToMarketCap = resolvedLiquidityAnalysis.totalLiquidityUsd / resolvedMarketData.marketCap
+  }
+  const resolvedLpLockAnalysis =
+    lpLockAnalysis.status === "fulfilled" ? lpLockAnalysis.value : getDefaultLpLockAnalysis()
+  const resolvedHoneypotAnalysis =
+    honeypotAnalysis.status === "fulfilled" ? honeypotAnalysis.value : getDefaultHoneypotAnalysis()
+  const resolvedFeeAnalysis = feeAnalysis.status === "fulfilled" ? feeAnalysis.value : getDefaultFeeAnalysis()
+  const resolvedDeployerAnalysis =
+    deployerAnalysis.status === "fulfilled" ? deployerAnalysis.value : getDefaultDeployerAnalysis()
+  const resolvedLaunchAnalysis =
+    launchAnalysis.status === "fulfilled" ? launchAnalysis.value : getDefaultLaunchAnalysis()
+
+  // Only include risk factors for present data
+  const analysis: ComprehensiveAnalysis = {
+    chain: chainSummary,
+    tokenData: resolvedTokenData,
+    marketData: resolvedMarketData,
+    securityAnalysis: resolvedSecurityAnalysis,
+    holderAnalysis: resolvedHolderAnalysis,
+    liquidityAnalysis: resolvedLiquidityAnalysis,
+    lpLockAnalysis: resolvedLpLockAnalysis,
+    honeypotAnalysis: resolvedHoneypotAnalysis,
+    feeAnalysis: resolvedFeeAnalysis,
+    deployerAnalysis: resolvedDeployerAnalysis,
+    launchAnalysis: resolvedLaunchAnalysis,
+    riskFactors: [],
+    overallRiskScore: 0,
+    riskLevel: "Medium",
+    recommendation: "",
+  }
+
+  // Only add risk factors for available data
+  analysis.riskFactors = identifyRiskFactorsFiltered(analysis)
+  analysis.overallRiskScore = calculateOverallRiskScore(analysis.riskFactors)
+  analysis.riskLevel = determineRiskLevel(analysis.overallRiskScore)
+  analysis.recommendation = generateRecommendation(analysis)
+
+  return analysis
+}
+
+// Runs the lightweight pipeline on the deployer's other tokens and those of wallets it funded
+async function scorePriorTokens(
+  providers: Providers,
+  chain: ChainConfig,
+  chainSummary: ChainSummary,
+  deployer: DeployerAnalysis,
+): Promise<DeployerAnalysis> {
+  const tokens = [...deployer.otherTokens, ...deployer.fundedWalletTokens]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, MAX_PRIOR_TOKENS)
+
+  const priorTokens = await Promise.all(
+    tokens.map(async (token) => {
+      try {
+        const analysis = await runAnalysis(providers, chain, chainSummary, token.address, "light")
+        const drained = await wasLiquidityDrained(providers, analysis.liquidityAnalysis).catch((error) => {
+          console.error(`Error checking liquidity removals for ${token.address}:`, error)
+          return false
+        })
+        return [
+          classifyPriorToken(token, analysis.liquidityAnalysis, analysis.marketData, analysis.overallRiskScore, drained),
+        ]
+      } catch (error) {
+        console.error(`Error analyzing prior token ${token.address}:`, error)
+        return []
+      }
+    }),
+  )
+  return { ...deployer, priorTokens: priorTokens.flat() }
+}
+
+async function getTokenMetadata({ contractReader }: Providers, contractAddress: string): Promise<TokenMetadata> {
+  const [name, symbol, decimals, totalSupply] = await contractReader.readContracts(
+    ["name", "symbol", "decimals", "totalSupply"].map((functionName) => ({
+      address: contractAddress,
+      abi: erc20Abi,
+      functionName,
+    })),
+  )
+
   return {
-    name: name.status === "fulfilled" ? name.value || "Unknown" : "Unknown",
-    symbol: symbol.status === "fulfilled" ? symbol.value || "UNKNOWN" : "UNKNOWN",
-    decimals: decimals.status === "fulfilled" ? Number.parseInt(decimals.value || "18") : 18,
-    totalSupply: totalSupply.status === "fulfilled" ? totalSupply.value || "0" : "0",
+    name: typeof name === "string" && name ? name : "Unknown",
+    symbol: typeof symbol === "string" && symbol ? symbol : "UNKNOWN",
+    decimals: decimals != null ? Number(decimals) : 18,
+    totalSupply: totalSupply != null ? String(totalSupply) : "0",
     contractAddress,
   }
 }
 
-async function getMarketData(contractAddress: string): Promise<MarketData | null> {
+async function getMarketData({ marketProvider }: Providers, contractAddress: string): Promise<MarketData | null> {
   try {
-    const searchResponse = await fetch(`${COINGECKO_BASE_URL}/coins/ethereum/contract/${contractAddress.toLowerCase()}`)
+    return await marketProvider.getMarketData(contractAddress)
+  } catch (error) {
+    console.error("Error fetching market data:", error)
+    return null
+  }
+}
+
+async function performSecurityAnalysis(providers: Providers, contractAddress: string): Promise<InspectedSecurity> {
+  const { contractReader } = providers
+  // Keeps the default risk when the analysis fails part way
+  const analysis: SecurityAnalysis = getDefaultSecurityAnalysis()
+  // Unverified until the code is found
+  let logic: LogicContract[] = [{ address: contractAddress, source: null, facet: null }]
 
-    if (!searchResponse.ok) {
-      console.log("Token not found on CoinGecko")
-      return null
+  try {
+    // Who controls the contract right now, and whether it forwards calls to an implementation or facets
+    const [ownership, proxy, diamond] = await Promise.all([
+      resolveOwnership(contractReader, contractAddress).catch((error) => {
+        console.error("Error resolving ownership:", error)
+        return getDefaultOwnershipAnalysis()
+      }),
+      resolveProxy(contractReader, contractAddress).catch((error) => {
+        console.error("Error resolving proxy:", error)
+        return null
+      }),
+      resolveDiamond(contractReader, contractAddress).catch((error) => {
+        console.error("Error resolving diamond facets:", error)
+        return null
+      }),
+    ])
+    analysis.ownership = ownership
+    analysis.hasOwnershipRenounced = ownership.type === "renounced"
+
+    if (proxy) {
+      // The proxy is only a forwarding shell; the capabilities that matter live in the implementation
+      const [implementation, upgradeController, upgradeHistory] = await Promise.all([
+        analyzeContractCode(providers, proxy.implementation),
+        resolveUpgradeController(contractReader, proxy, ownership),
+        analyzeUpgradeHistory(providers, contractAddress, proxy.beacon).catch((error) => {
+          console.error("Error reading upgrade history:", error)
+          return getDefaultUpgradeHistory()
+        }),
+      ])
+      Object.assign(analysis, implementation.analysis)
+      logic = [{ address: proxy.implementation, source: implementation.source, facet: null }]
+      analysis.hasProxyContract = true
+      analysis.proxy = { ...proxy, upgradeController, implementationAnalysis: implementation.analysis, upgradeHistory }
+    } else if (diamond) {
+      // Diamond logic is spread over facets, so every facet is analyzed and the findings merged
+      const inspected = await Promise.all(
+        diamond.map(async (facet) => {
+          const { analysis: facetAnalysis, source } = await analyzeContractCode(providers, facet.address)
+          return {
+            analysis: {
+              ...facetAnalysis,
+              selectors: facet.selectors,
+              findings: routedFindings(facetAnalysis.findings, facet),
+              privileges: routedFindings(facetAnalysis.privileges, facet),
+              balanceWrites: routedFindings(facetAnalysis.balanceWrites, facet),
+            },
+            logic: { address: facet.address, source, facet },
+          }
+        }),
+      )
+      logic = inspected.map((entry) => entry.logic)
+      const facets = inspected.map((entry) => entry.analysis)
+      const findings = facets.flatMap((facet) => facet.findings)
+      const has = (capability: Capability) => findings.some((finding) => finding.capability === capability)
+      const upgradeable = diamond.some((facet) => facet.selectors.includes(DIAMOND_CUT_SELECTOR))
+
+      analysis.isVerified = facets.every((facet) => facet.isVerified)
+      analysis.hasMintFunction = has("mint")
+      analysis.hasPauseFunction = has("pause")
+      analysis.hasBlacklistFunction = has("blacklist")
+      analysis.hasProxyContract = upgradeable || has("proxy")
+      analysis.findings = findings
+      analysis.privileges = facets.flatMap((facet) => facet.privileges)
+      analysis.balanceWrites = facets.flatMap((facet) => facet.balanceWrites)
+      analysis.analysisMethod = facets.some((facet) => facet.analysisMethod !== "source") ? "bytecode" : "source"
+      analysis.confidence = analysis.analysisMethod === "source" ? "high" : "medium"
+      analysis.diamond = { upgradeable, facets }
+    } else {
+      const inspected = await analyzeContractCode(providers, contractAddress)
+      Object.assign(analysis, inspected.analysis)
+      logic = [{ address: contractAddress, source: inspected.source, facet: null }]
     }
 
-    const coinData = await searchResponse.json()
+    analysis.codeInspected = true
 
-    return {
-      price: coinData.market_data?.current_price?.usd || 0,
-      marketCap: coinData.market_data?.market_cap?.usd || 0,
-      volume24h: coinData.market_data?.total_volume?.usd || 0,
-      priceChange24h: coinData.market_data?.price_change_percentage_24h || 0,
-      circulatingSupply: coinData.market_data?.circulating_supply || 0,
-      totalSupply: coinData.market_data?.total_supply || 0,
-      maxSupply: coinData.market_data?.max_supply || null,
-      ath: coinData.market_data?.ath?.usd || 0,
-      athChangePercentage: coinData.market_data?.ath_change_percentage?.usd || 0,
-      atl: coinData.market_data?.atl?.usd || 0,
-      atlChangePercentage: coinData.market_data?.atl_change_percentage?.usd || 0,
-    }
+    // Restrictions and owner variables are read from the token's own storage, whichever contracts hold the logic
+    const [tradingRestrictions, hiddenOwner] = await Promise.all([
+      analyzeTradingRestrictions(providers, contractAddress, logic, analysis.findings, ownership).catch((error) => {
+        console.error("Error analyzing trading restrictions:", error)
+        return getDefaultTradingRestrictionAnalysis()
+      }),
+      analyzeHiddenOwner(providers, contractAddress, logic, ownership).catch((error) => {
+        console.error("Error analyzing hidden owners:", error)
+        return getDefaultHiddenOwnerAnalysis()
+      }),
+    ])
+    analysis.tradingRestrictions = tradingRestrictions
+    analysis.hiddenOwner = hiddenOwner
+    analysis.hasOwnershipRenounced = ownership.type === "renounced" && !hiddenOwner.appearsRenounced
+
+    // Calculate rug pull risk based on various factors
+    analysis.rugPullRisk = calculateRugPullRisk(analysis)
   } catch (error) {
-    console.error("Error fetching market data:", error)
-    return null
+    console.error("Error in security analysis:", error)
   }
+
+  return { analysis, logic }
 }
 
-async function performSecurityAnalysis(contractAddress: string): Promise<SecurityAnalysis> {
-  const analysis: SecurityAnalysis = {
+// Detects dangerous functions a contract actually exposes, from verified source when available and
+// from the deployed bytecode otherwise
+async function analyzeContractCode(
+  { sourceProvider, contractReader }: Providers,
+  address: string,
+): Promise<InspectedCode> {
+  const analysis: CodeAnalysis = {
+    address,
+    contractName: null,
     isVerified: false,
     hasProxyContract: false,
     hasMintFunction: false,
     hasPauseFunction: false,
     hasBlacklistFunction: false,
-    hasOwnershipRenounced: false,
-    rugPullRisk: 0,
+    findings: [],
+    privileges: [],
+    balanceWrites: [],
+    analysisMethod: "none",
+    confidence: "low",
+    bytecode: null,
   }
 
-  try {
-    // Check if contract is verified on Etherscan
-    const verificationResponse = await fetch(
-      `${ETHERSCAN_BASE_URL}?module=contract&action=getsourcecode&address=${contractAddress}&apikey=${ETHERSCAN_API_KEY}`,
-    )
-
-    if (verificationResponse.ok) {
-      const verificationData = await verificationResponse.json()
-      const sourceCode = verificationData.result?.[0]?.SourceCode || ""
-
-      analysis.isVerified = sourceCode !== ""
-
-      // Analyze source code for dangerous functions if available
-      if (sourceCode) {
-        analysis.hasMintFunction = /function\s+mint\s*\(/.test(sourceCode) || /\.mint\s*\(/.test(sourceCode)
-        analysis.hasPauseFunction = /function\s+pause\s*\(/.test(sourceCode) || /Pausable/.test(sourceCode)
-        analysis.hasBlacklistFunction = /blacklist/i.test(sourceCode) || /function\s+blacklist\s*\(/.test(sourceCode)
-        analysis.hasProxyContract = /Proxy/.test(sourceCode) || /upgradeable/i.test(sourceCode)
-        analysis.hasOwnershipRenounced = /renounceOwnership/i.test(sourceCode) && /onlyOwner/.test(sourceCode)
+  // An explorer outage or rate limit leaves the source unknown; the bytecode is still analyzed
+  const verifiedSource = await sourceProvider.getSourceCode(address).catch((error) => {
+    console.error(`Error fetching source for ${address}:`, error)
+    return null
+  })
+  analysis.isVerified = verifiedSource !== null
+
+  const sourceAnalysis = verifiedSource ? analyzeSource(verifiedSource) : null
+
+  if (sourceAnalysis) {
+    Object.assign(analysis, pickCapabilities(sourceAnalysis))
+    analysis.privileges = sourceAnalysis.privileges.map((privilege) => ({ ...privilege, address }))
+    analysis.balanceWrites = sourceAnalysis.balanceWrites.map((path) => ({ ...path, address }))
+    analysis.contractName = sourceAnalysis.contractName
+    analysis.analysisMethod = "source"
+    analysis.confidence = "high"
+  } else {
+    // Unverified (or unparseable) source: infer the same capabilities from the deployed bytecode
+    const bytecodeAnalysis = await getBytecodeAnalysis(contractReader, address)
+    if (bytecodeAnalysis) {
+      Object.assign(analysis, pickCapabilities(bytecodeAnalysis))
+      analysis.privileges = bytecodeAnalysis.privileges.map((privilege) => ({ ...privilege, address }))
+      analysis.analysisMethod = "bytecode"
+      analysis.confidence = "medium"
+      analysis.bytecode = {
+        size: bytecodeAnalysis.size,
+        selectorCount: bytecodeAnalysis.selectors.length,
+        hasDelegatecall: bytecodeAnalysis.hasDelegatecall,
+        hasSelfdestruct: bytecodeAnalysis.hasSelfdestruct,
+        minimalProxyImplementation: bytecodeAnalysis.minimalProxyImplementation,
       }
     }
-
-    // Calculate rug pull risk based on various factors
-    analysis.rugPullRisk = calculateRugPullRisk(analysis)
-  } catch (error) {
-    console.error("Error in security analysis:", error)
   }
 
-  return analysis
+  return { analysis, source: sourceAnalysis }
 }
 
-async function analyzeHolderDistribution(contractAddress: string): Promise<HolderAnalysis> {
-  try {
-    // Get top token holders from Etherscan
-    const holdersResponse = await fetch(
-      `${ETHERSCAN_BASE_URL}?module=token&action=tokenholderlist&contractaddress=${contractAddress}&page=1&offset=100&apikey=${ETHERSCAN_API_KEY}`,
-    )
-
-    if (holdersResponse.ok) {
-      const holdersData = await holdersResponse.json()
+type Capabilities = Pick<
+  SecurityAnalysis,
+  | "hasMintFunction"
+  | "hasPauseFunction"
+  | "hasBlacklistFunction"
+  | "hasProxyContract"
+  | "findings"
+>
 
-      // Check if the response is successful and has results
-      if (holdersData.status === "1" && holdersData.result && Array.isArray(holdersData.result)) {
-        const holders = holdersData.result
-
-        if (holders.length > 0) {
-          // Calculate total supply from holders data
-          const totalSupplyFromHolders = holders.reduce(
-            (sum: number, holder: any) => sum + Number.parseFloat(holder.TokenHolderQuantity || "0"),
-            0,
-          )
+function pickCapabilities(result: Capabilities): Capabilities {
+  return {
+    hasMintFunction: result.hasMintFunction,
+    hasPauseFunction: result.hasPauseFunction,
+    hasBlacklistFunction: result.hasBlacklistFunction,
+    hasProxyContract: result.hasProxyContract,
+    findings: result.findings,
+  }
+}
 
-          const top10Supply = holders
-            .slice(0, 10)
-            .reduce((sum: number, holder: any) => sum + Number.parseFloat(holder.TokenHolderQuantity || "0"), 0)
+async function getBytecodeAnalysis(
+  contractReader: ContractReader,
+  contractAddress: string,
+): Promise<BytecodeAnalysis | null> {
+  const code = await contractReader.getCode(contractAddress)
+  if (code === "0x") return null
 
-          const creatorBalance = Number.parseFloat(holders[0]?.TokenHolderQuantity || "0")
+  const analysis = analyzeBytecode(code)
 
-          return {
-            totalHolders: holders.length,
-            top10HoldersPercentage: totalSupplyFromHolders > 0 ? (top10Supply / totalSupplyFromHolders) * 100 : 100,
-            creatorPercentage: totalSupplyFromHolders > 0 ? (creatorBalance / totalSupplyFromHolders) * 100 : 100,
-            distributionScore: calculateDistributionScore(holders, totalSupplyFromHolders),
-          }
-        }
-      }
+  // An EIP-1167 clone only forwards calls, so analyze the code it forwards to
+  if (analysis.minimalProxyImplementation) {
+    const implementationCode = await contractReader.getCode(analysis.minimalProxyImplementation)
+    if (implementationCode !== "0x") {
+      return { ...analyzeBytecode(implementationCode), minimalProxyImplementation: analysis.minimalProxyImplementation }
     }
-  } catch (error) {
-    console.error("Error analyzing holder distribution (Etherscan):", error)
   }
 
+  return analysis
+}
+
+async function analyzeHolderDistribution(
+  providers: Providers,
+  chain: ChainConfig,
+  contractAddress: string,
+  liquidity: Promise<LiquidityAnalysis>,
+  creator: Promise<CreatorHoldings>,
+): Promise<HolderAnalysis> {
+  const { holderProvider, contractReader } = providers
   try {
-    const altHolders = await fetchHoldersFromEthplorer(contractAddress)
-    if (altHolders && altHolders.length > 0) {
-      const totalSupply = altHolders.reduce((sum, h: any) => sum + (Number.parseFloat(h.balance) || 0), 0)
-      const top10Supply = altHolders.slice(0, 10).reduce((sum, h: any) => sum + (Number.parseFloat(h.balance) || 0), 0)
-      const creatorBalance = Number.parseFloat(altHolders[0]?.balance || "0")
+    const [holders, holderCount, totalSupply, pools, creatorHoldings] = await Promise.all([
+      holderProvider.getTopHolders(contractAddress, TOP_HOLDERS_LIMIT),
+      holderProvider.getHolderCount(contractAddress).catch(() => null),
+      contractReader.readContract({ address: contractAddress, abi: erc20Abi, functionName: "totalSupply" }),
+      liquidity.then((analysis) => analysis.pools.map((pool) => pool.address)).catch(() => []),
+      creator.catch((error) => {
+        console.error("Error analyzing creator holdings:", error)
+        return getDefaultCreatorHoldings()
+      }),
+    ])
+
+    if (holders && holders.length > 0) {
+      const labeled = await classifyHolders(contractReader, chain, holders, pools)
+
+      // Percentages are of the on-chain totalSupply; the sum of the top balances is only a fallback
+      const onChainSupply = Number(totalSupply ?? 0)
+      const supply = onChainSupply > 0 ? onChainSupply : holders.reduce((sum, holder) => sum + holder.balance, 0)
+      const top10Supply = holders.slice(0, 10).reduce((sum, holder) => sum + holder.balance, 0)
+
+      // The float is what is left once infrastructure holders are set aside
+      const float = labeled.filter((holder) => !isInfrastructure(holder.label))
+      const infrastructureSupply = labeled
+        .filter((holder) => isInfrastructure(holder.label))
+        .reduce((sum, holder) => sum + holder.balance, 0)
+      const floatSupply = supply - infrastructureSupply
+      const floatTop10Supply = float.slice(0, 10).reduce((sum, holder) => sum + holder.balance, 0)
+
+      // A list shorter than the page size is every holder there is
+      const listIsComplete = holders.length < TOP_HOLDERS_LIMIT
+
+      const withPercentages = labeled.map((holder) => ({
+        ...holder,
+        percentage: supply > 0 ? (holder.balance / supply) * 100 : 0,
+      }))
+      const infrastructurePercentage = supply > 0 ? (infrastructureSupply / supply) * 100 : 0
+      const clusters = await analyzeHolderClusters(
+        providers,
+        chain,
+        contractAddress,
+        withPercentages,
+        infrastructurePercentage,
+      ).catch((error) => {
+        console.error("Error clustering holders:", error)
+        return getDefaultClusterAnalysis()
+      })
+      const balanceCheck = await checkHolderBalances(
+        contractReader,
+        contractAddress,
+        holders,
+        (totalSupply as bigint | null) ?? null,
+        listIsComplete,
+      ).catch((error) => {
+        console.error("Error checking holder balances:", error)
+        return getDefaultBalanceCheck()
+      })
 
       return {
-        totalHolders: altHolders.length,
-        top10HoldersPercentage: totalSupply > 0 ? (top10Supply / totalSupply) * 100 : 100,
-        creatorPercentage: totalSupply > 0 ? (creatorBalance / totalSupply) * 100 : 100,
-        distributionScore: calculateDistributionScore(
-          altHolders.map((h: any) => ({ TokenHolderQuantity: h.balance })),
-          totalSupply,
-        ),
+        totalHolders: holderCount?.count ?? holders.length,
+        totalHoldersExact: holderCount !== null || listIsComplete,
+        holders: withPercentages,
+        top10HoldersPercentage: supply > 0 ? (top10Supply / supply) * 100 : 100,
+        creatorPercentage: creatorHoldings.directPercentage,
+        creatorHoldings,
+        distributionScore: calculateDistributionScore(holders, supply),
+        infrastructurePercentage,
+        adjustedTop10HoldersPercentage: floatSupply > 0 ? (floatTop10Supply / floatSupply) * 100 : 100,
+        adjustedDistributionScore: calculateDistributionScore(float, floatSupply),
+        clusters,
+        balanceCheck,
+        provenance: {
+          totalHolders: holderCount?.source ?? (listIsComplete ? "holder list" : `top ${TOP_HOLDERS_LIMIT} (lower bound)`),
+          percentages: onChainSupply > 0 ? "totalSupply" : "topHolders",
+        },
       }
     }
   } catch (error) {
-    console.error("Error analyzing holder distribution (Ethplorer):", error)
+    console.error("Error analyzing holder distribution:", error)
   }
 
   return getDefaultHolderAnalysis()
 }
 
-async function fetchHoldersFromEthplorer(contractAddress: string): Promise<any[] | null> {
-  try {
-    const res = await fetch(
-      `${ETHPLORER_BASE_URL}/getTopTokenHolders/${contractAddress}?apiKey=freekey&limit=100`,
-    )
-    if (res.ok) {
-      const data = await res.json()
-      if (data?.holders && Array.isArray(data.holders)) {
-        return data.holders
-      }
-    }
-  } catch (error) {
-    console.error('Error fetching holders from Ethplorer:', error)
-  }
-  return null
-}
+// Upgrades within this window that add capabilities are flagged
+const RECENT_UPGRADE_DAYS = 90
+// Deployers with at least this many other tokens are flagged as serial deployers
+const SERIAL_DEPLOYER_TOKENS = 3
+// A cluster of linked holders above this share of the float is flagged
+const CLUSTER_FLOAT_THRESHOLD = 50
+// Shares of supply bought at launch by insiders, and in bundles, above which the launch is flagged
+const INSIDER_SNIPE_PERCENTAGE = 5
+const BUNDLED_BUY_PERCENTAGE = 10
 
 // Add a new function to only add risk factors for present data
 function identifyRiskFactorsFiltered(analysis: ComprehensiveAnalysis): RiskFactor[] {
   const riskFactors: RiskFactor[] = []
 
-  // Security-related risks
-  if (analysis.securityAnalysis && analysis.securityAnalysis.isVerified === false) {
+  // Security-related risks (verification is only known once the code was inspected; light mode skips that)
+  if (analysis.securityAnalysis && analysis.securityAnalysis.codeInspected && !analysis.securityAnalysis.isVerified) {
     riskFactors.push({
       category: "Security",
       severity: "high",
-      description: "Contract source code is not verified on Etherscan",
+      description: `Contract source code is not verified on ${analysis.chain.explorerName}`,
       impact: 25,
     })
   }
@@ -343,6 +761,17 @@ function identifyRiskFactorsFiltered(analysis: ComprehensiveAnalysis): RiskFacto
       impact: 15,
     })
   }
+  const balanceManipulation = analysis.securityAnalysis?.findings.filter(
+    (finding) => finding.capability === "balanceManipulation",
+  )
+  if (balanceManipulation && balanceManipulation.length > 0) {
+    riskFactors.push({
+      category: "Security",
+      severity: "high",
+      description: `Balances can be changed outside transfers (${balanceManipulation.map((finding) => finding.description).join("; ")})`,
+      impact: 25,
+    })
+  }
   if (analysis.securityAnalysis && analysis.securityAnalysis.hasBlacklistFunction) {
     riskFactors.push({
       category: "Security",
@@ -359,14 +788,233 @@ function identifyRiskFactorsFiltered(analysis: ComprehensiveAnalysis): RiskFacto
       impact: 15,
     })
   }
-  if (analysis.securityAnalysis && analysis.securityAnalysis.hasProxyContract) {
+  if (analysis.securityAnalysis && analysis.securityAnalysis.tradingRestrictions.canBlockTrading) {
+    const blocking = analysis.securityAnalysis.tradingRestrictions.setters
+      .filter((setter) => setter.blocking)
+      .map((setter) => `${setter.function.split("(")[0]}()`)
     riskFactors.push({
       category: "Security",
-      severity: "medium",
-      description: "Proxy contract - logic can be upgraded",
+      severity: "high",
+      description: `Trading restrictions can be tightened until nobody can trade (${blocking.join(", ")})`,
+      impact: 25,
+    })
+  }
+  if (analysis.securityAnalysis && analysis.securityAnalysis.bytecode?.hasSelfdestruct) {
+    riskFactors.push({
+      category: "Security",
+      severity: "high",
+      description: "Contract bytecode contains SELFDESTRUCT",
+      impact: 20,
+    })
+  }
+  const hiddenOwner = analysis.securityAnalysis?.hiddenOwner
+  const hiddenOwnerPatterns = hiddenOwner?.findings.map((finding) => finding.description).join("; ")
+  if (hiddenOwner?.appearsRenounced) {
+    const controller = hiddenOwner.hiddenController ? `: ${hiddenOwner.hiddenController} keeps control` : ""
+    riskFactors.push({
+      category: "Security",
+      severity: "critical",
+      description: `Ownership only appears renounced${controller}${hiddenOwnerPatterns ? ` (${hiddenOwnerPatterns})` : ""}`,
+      impact: 40,
+    })
+  } else if (hiddenOwnerPatterns) {
+    riskFactors.push({
+      category: "Security",
+      severity: "high",
+      description: `Renouncing ownership would not give up control (${hiddenOwnerPatterns})`,
       impact: 20,
     })
   }
+  if (analysis.securityAnalysis && controllerRiskType(analysis.securityAnalysis.ownership) === "eoa") {
+    riskFactors.push({
+      category: "Security",
+      severity: "medium",
+      description: `Contract is controlled by a single key (${analysis.securityAnalysis.ownership.controllerSource})`,
+      impact: 10,
+    })
+  }
+  if (analysis.securityAnalysis && analysis.securityAnalysis.hasProxyContract) {
+    // Diamonds and UUPS-style contracts are upgraded by their owner
+    const upgradeController = analysis.securityAnalysis.proxy?.upgradeController ?? analysis.securityAnalysis.ownership
+    if (upgradeController && controllerRiskType(upgradeController) === "eoa") {
+      riskFactors.push({
+        category: "Security",
+        severity: "high",
+        description: `Proxy contract - a single key (${upgradeController.controllerSource}) can replace the logic at any time`,
+        impact: 25,
+      })
+    } else {
+      riskFactors.push({
+        category: "Security",
+        severity: "medium",
+        description: "Proxy contract - logic can be upgraded",
+        impact: 20,
+      })
+    }
+  }
+
+  // An upgrade that recently gave the contract new powers over holders' tokens
+  const upgradeDiffs = analysis.securityAnalysis?.proxy?.upgradeHistory.diffs ?? []
+  const recentCutoff = Date.now() / 1000 - RECENT_UPGRADE_DAYS * 24 * 60 * 60
+  for (const diff of upgradeDiffs.filter((diff) => diff.timestamp >= recentCutoff)) {
+    const dangerous = diff.addedCapabilities.filter((capability) => capability !== "proxy")
+    if (dangerous.length > 0) {
+      riskFactors.push({
+        category: "Security",
+        severity: "high",
+        description: `Upgraded ${Math.floor((Date.now() / 1000 - diff.timestamp) / 86400)} days ago to an implementation that adds ${dangerous.join(", ")} capabilities`,
+        impact: 30,
+      })
+    }
+  }
+
+  // Trading simulation risks (only if the simulation actually ran)
+  const honeypot = analysis.honeypotAnalysis
+  if (honeypot && honeypot.simulated) {
+    if (!honeypot.canBuy) {
+      riskFactors.push({
+        category: "Trading",
+        severity: "critical",
+        description: `Simulated buy failed${honeypot.error ? ` (${honeypot.error})` : ""}`,
+        impact: 40,
+      })
+    } else if (!honeypot.canSell) {
+      riskFactors.push({
+        category: "Trading",
+        severity: "critical",
+        description: `Honeypot: tokens can be bought but not sold${honeypot.error ? ` (${honeypot.error})` : ""}`,
+        impact: 50,
+      })
+    }
+    if (honeypot.canTransfer === false) {
+      riskFactors.push({
+        category: "Trading",
+        severity: "medium",
+        description: `Simulated wallet-to-wallet transfer failed (${honeypot.transferError})`,
+        impact: 10,
+      })
+    }
+    if (typeof honeypot.sellTax === "number" && honeypot.sellTax > 30) {
+      riskFactors.push({
+        category: "Trading",
+        severity: "critical",
+        description: `Extreme sell tax of ${honeypot.sellTax.toFixed(1)}%`,
+        impact: 40,
+      })
+    } else if (typeof honeypot.sellTax === "number" && honeypot.sellTax > 10) {
+      riskFactors.push({
+        category: "Trading",
+        severity: "high",
+        description: `High sell tax of ${honeypot.sellTax.toFixed(1)}%`,
+        impact: 20,
+      })
+    }
+    if (typeof honeypot.buyTax === "number" && honeypot.buyTax > 10) {
+      riskFactors.push({
+        category: "Trading",
+        severity: honeypot.buyTax > 30 ? "critical" : "high",
+        description: `High buy tax of ${honeypot.buyTax.toFixed(1)}%`,
+        impact: honeypot.buyTax > 30 ? 30 : 15,
+      })
+    }
+    if (typeof honeypot.transferTax === "number" && honeypot.transferTax > 10) {
+      riskFactors.push({
+        category: "Trading",
+        severity: honeypot.transferTax > 30 ? "critical" : "high",
+        description: `High wallet-to-wallet transfer tax of ${honeypot.transferTax.toFixed(1)}%`,
+        impact: honeypot.transferTax > 30 ? 30 : 15,
+      })
+    }
+  }
+
+  // Fee setters without a hard-coded cap let the fee be raised to 100% after launch
+  const fees = analysis.feeAnalysis
+  const uncapped = fees ? fees.setters.filter((setter) => setter.capped === false) : []
+  if (uncapped.length > 0 && (fees.changeableBy === "owner" || fees.changeableBy === "anyone")) {
+    riskFactors.push({
+      category: "Fees",
+      severity: "high",
+      description: `${fees.changeableBy === "anyone" ? "Anyone" : "The owner"} can set fees to any value through ${uncapped
+        .map((setter) => `${setter.function.split("(")[0]}()`)
+        .join(", ")}`,
+      impact: 25,
+    })
+  }
+
+  // Liquidity risks (a failed discovery leaves the default with no pools)
+  const liquidity = analysis.liquidityAnalysis
+  if (liquidity && liquidity.pools.length === 0) {
+    riskFactors.push({
+      category: "Liquidity",
+      severity: "high",
+      description: "No DEX liquidity pool found against the native token or stablecoins",
+      impact: 25,
+    })
+  } else if (liquidity && liquidity.fullyValued) {
+    // Pools that could not be priced (e.g. the native price lookup failed) leave the size unknown
+    if (liquidity.totalLiquidityUsd < 10000) {
+      riskFactors.push({
+        category: "Liquidity",
+        severity: "high",
+        description: "Very thin liquidity (< $10,000) - easy to drain or manipulate",
+        impact: 25,
+      })
+    } else if (liquidity.totalLiquidityUsd < 50000) {
+      riskFactors.push({
+        category: "Liquidity",
+        severity: "medium",
+        description: "Low liquidity (< $50,000)",
+        impact: 10,
+      })
+    }
+    if (typeof liquidity.liquidityToMarketCap === "number" && liquidity.liquidityToMarketCap < 0.02) {
+      riskFactors.push({
+        category: "Liquidity",
+        severity: "high",
+        description: "Liquidity is under 2% of market cap - holders cannot exit at the quoted price",
+        impact: 20,
+      })
+    } else if (typeof liquidity.liquidityToMarketCap === "number" && liquidity.liquidityToMarketCap < 0.05) {
+      riskFactors.push({
+        category: "Liquidity",
+        severity: "medium",
+        description: "Liquidity is under 5% of market cap",
+        impact: 10,
+      })
+    }
+  }
+
+  // LP lock risks (only for pools whose LP holders could be fetched)
+  const lpLocks = analysis.lpLockAnalysis
+  if (lpLocks && lpLocks.pools.length > 0) {
+    const exposed = lpLocks.pools
+      .filter((pool) => pool.largestUnlockedEoa && pool.largestUnlockedEoa.percentage > 50)
+      .sort((a, b) => b.largestUnlockedEoa!.percentage - a.largestUnlockedEoa!.percentage)[0]
+    if (exposed) {
+      riskFactors.push({
+        category: "Liquidity",
+        severity: "critical",
+        description: `${exposed.largestUnlockedEoa!.percentage.toFixed(1)}% of the ${exposed.dex} LP is unlocked in a single ${exposed.largestUnlockedEoa!.isDeployer ? "deployer " : ""}wallet - liquidity can be pulled at any time`,
+        impact: 40,
+      })
+    } else if (lpLocks.percentageLocked + lpLocks.percentageBurned < 50) {
+      riskFactors.push({
+        category: "Liquidity",
+        severity: "high",
+        description: "Less than half of the LP tokens are locked or burned",
+        impact: 20,
+      })
+    }
+    const thirtyDays = 30 * 24 * 60 * 60
+    if (lpLocks.earliestUnlock !== null && lpLocks.earliestUnlock - Date.now() / 1000 < thirtyDays) {
+      riskFactors.push({
+        category: "Liquidity",
+        severity: "medium",
+        description: "An LP lock has expired or expires within 30 days",
+        impact: 10,
+      })
+    }
+  }
 
   // Market-related risks
   if (!analysis.marketData) {
@@ -420,11 +1068,11 @@ function identifyRiskFactorsFiltered(analysis: ComprehensiveAnalysis): RiskFacto
 
   // Holder distribution risks (only if holderAnalysis is present and not default)
   if (analysis.holderAnalysis && analysis.holderAnalysis.totalHolders > 0) {
-    if (typeof analysis.holderAnalysis.top10HoldersPercentage === "number" && analysis.holderAnalysis.top10HoldersPercentage > 80) {
+    if (analysis.holderAnalysis.adjustedTop10HoldersPercentage > 80) {
       riskFactors.push({
         category: "Distribution",
         severity: "high",
-        description: "Top 10 holders control more than 80% of supply",
+        description: "Top 10 holders control more than 80% of the float (excluding pools, lockers, exchanges and bridges)",
         impact: 25,
       })
     }
@@ -435,8 +1083,35 @@ function identifyRiskFactorsFiltered(analysis: ComprehensiveAnalysis): RiskFacto
         description: "Creator/deployer holds more than 50% of total supply",
         impact: 30,
       })
+    } else if (
+      analysis.holderAnalysis.creatorPercentage + analysis.holderAnalysis.creatorHoldings.linkedPercentage >
+      50
+    ) {
+      riskFactors.push({
+        category: "Distribution",
+        severity: "high",
+        description: `Creator and ${analysis.holderAnalysis.creatorHoldings.linkedWallets.length} wallets it funded with tokens at launch hold more than 50% of total supply`,
+        impact: 25,
+      })
+    }
+    if (analysis.holderAnalysis.balanceCheck.inconsistent) {
+      riskFactors.push({
+        category: "Distribution",
+        severity: "high",
+        description: `Holder balances do not add up to totalSupply: ${analysis.holderAnalysis.balanceCheck.reason}`,
+        impact: 25,
+      })
+    }
+    const largestCluster = analysis.holderAnalysis.clusters.clusters[0]
+    if (largestCluster && largestCluster.floatPercentage > CLUSTER_FLOAT_THRESHOLD) {
+      riskFactors.push({
+        category: "Distribution",
+        severity: "high",
+        description: `${largestCluster.members.length} top holders sharing a funding source control ${largestCluster.floatPercentage.toFixed(1)}% of the float`,
+        impact: 25,
+      })
     }
-    if (typeof analysis.holderAnalysis.totalHolders === "number" && analysis.holderAnalysis.totalHolders < 100) {
+    if (analysis.holderAnalysis.totalHoldersExact && analysis.holderAnalysis.totalHolders < 100) {
       riskFactors.push({
         category: "Distribution",
         severity: "medium",
@@ -446,6 +1121,79 @@ function identifyRiskFactorsFiltered(analysis: ComprehensiveAnalysis): RiskFacto
     }
   }
 
+  // Contract age and deployer history (only if the creation record was found)
+  const deployer = analysis.deployerAnalysis
+  if (deployer && deployer.contractAgeDays !== null) {
+    if (deployer.contractAgeDays < 1) {
+      riskFactors.push({
+        category: "Deployer",
+        severity: "high",
+        description: "Contract was deployed less than 24 hours ago",
+        impact: 20,
+      })
+    } else if (deployer.contractAgeDays < 7) {
+      riskFactors.push({
+        category: "Deployer",
+        severity: "medium",
+        description: "Contract was deployed less than a week ago",
+        impact: 10,
+      })
+    } else if (deployer.contractAgeDays < 30) {
+      riskFactors.push({
+        category: "Deployer",
+        severity: "low",
+        description: "Contract was deployed less than a month ago",
+        impact: 5,
+      })
+    }
+  }
+  if (deployer && deployer.otherTokens.length >= SERIAL_DEPLOYER_TOKENS) {
+    riskFactors.push({
+      category: "Deployer",
+      severity: deployer.otherTokens.length >= SERIAL_DEPLOYER_TOKENS * 3 ? "high" : "medium",
+      description: `Serial deployer - the deployer has created ${deployer.otherTokens.length} other tokens`,
+      impact: deployer.otherTokens.length >= SERIAL_DEPLOYER_TOKENS * 3 ? 20 : 10,
+    })
+  }
+  const rugged = deployer ? deployer.priorTokens.filter((token) => token.status === "rugged") : []
+  if (rugged.length > 0) {
+    riskFactors.push({
+      category: "Deployer",
+      severity: "critical",
+      description: `Deployer has rugged before: ${rugged
+        .map((token) => `${token.symbol ?? "?"} (${token.address.slice(0, 10)}..., ${token.reason})`)
+        .join("; ")}`,
+      impact: 40,
+    })
+  }
+  if (deployer && deployer.fundedBy?.label?.kind === "mixer") {
+    riskFactors.push({
+      category: "Deployer",
+      severity: "high",
+      description: `Deployer wallet was funded through ${deployer.fundedBy.label.name}`,
+      impact: 20,
+    })
+  }
+
+  // Launch window buys (only if the liquidity add was found)
+  const launch = analysis.launchAnalysis
+  if (launch && launch.insiderPercentage > INSIDER_SNIPE_PERCENTAGE) {
+    riskFactors.push({
+      category: "Launch",
+      severity: "high",
+      description: `The deployer and wallets it funded bought ${launch.insiderPercentage.toFixed(1)}% of supply in the first ${launch.windowBlocks} blocks after liquidity was added`,
+      impact: 25,
+    })
+  }
+  if (launch && launch.bundledPercentage > BUNDLED_BUY_PERCENTAGE) {
+    riskFactors.push({
+      category: "Launch",
+      severity: "medium",
+      description: `${launch.bundledPercentage.toFixed(1)}% of supply was bought in bundles at launch (in the liquidity-add block or several wallets per transaction)`,
+      impact: 15,
+    })
+  }
+
   // Token metadata risks
   if (analysis.tokenData && (analysis.tokenData.name === "Unknown" || analysis.tokenData.symbol === "UNKNOWN")) {
     riskFactors.push({
@@ -518,62 +1266,19 @@ function generateRecommendation(analysis: ComprehensiveAnalysis): string {
 }
 
 // Helper functions
-async function callContractMethod(contractAddress: string, methodName: string, params: any[]): Promise<string | null> {
-  const methodABIs: Record<string, any> = {
-    name: {
-      inputs: [],
-      name: "name",
-      outputs: [{ name: "", type: "string" }],
-      stateMutability: "view",
-      type: "function",
-    },
-    symbol: {
-      inputs: [],
-      name: "symbol",
-      outputs: [{ name: "", type: "string" }],
-      stateMutability: "view",
-      type: "function",
-    },
-    decimals: {
-      inputs: [],
-      name: "decimals",
-      outputs: [{ name: "", type: "uint8" }],
-      stateMutability: "view",
-      type: "function",
-    },
-    totalSupply: {
-      inputs: [],
-      name: "totalSupply",
-      outputs: [{ name: "", type: "uint256" }],
-      stateMutability: "view",
-      type: "function",
-    },
-  }
-
-  try {
-    const response = await fetch(`${TATUM_BASE_URL}/ethereum/smartcontract`, {
-      method: "POST",
-      headers: {
-        "x-api-key": TATUM_API_KEY,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        contractAddress,
-        methodName,
-        methodABI: methodABIs[methodName],
-        params,
-      }),
-    })
-
-    if (response.ok) {
-      const result = await response.json()
-      return result?.data || result?.[0] || result?.value || result?.toString() || null
-    }
-  } catch (error) {
-    console.error(`Error calling ${methodName}:`, error)
-  }
+// Renounced or ownerless contracts add nothing; a single key adds the most
+const OWNERSHIP_RISK: Record<OwnershipAnalysis["type"], number> = {
+  renounced: 0,
+  none: 0,
+  timelock: 5,
+  safe: 5,
+  contract: 10,
+  eoa: 15,
+}
 
-  return null
+// A 1-of-N Safe is a single key in practice
+function controllerRiskType(ownership: OwnershipAnalysis): OwnershipAnalysis["type"] {
+  return ownership.type === "safe" && (ownership.safe?.threshold ?? 0) <= 1 ? "eoa" : ownership.type
 }
 
 function calculateRugPullRisk(security: SecurityAnalysis): number {
@@ -581,19 +1286,22 @@ function calculateRugPullRisk(security: SecurityAnalysis): number {
   if (!security.isVerified) risk += 25
   if (security.hasMintFunction) risk += 15
   if (security.hasBlacklistFunction) risk += 25
+  if (security.findings.some((finding) => finding.capability === "balanceManipulation")) risk += 20
   if (security.hasPauseFunction) risk += 10
+  if (security.tradingRestrictions.canBlockTrading) risk += 15
   if (security.hasProxyContract) risk += 15
-  if (!security.hasOwnershipRenounced) risk += 10
+  risk += OWNERSHIP_RISK[controllerRiskType(security.ownership)]
+  if (security.hiddenOwner.appearsRenounced) risk += 30
   return Math.min(risk, 100)
 }
 
-function calculateDistributionScore(holders: any[], totalSupply: number): number {
+function calculateDistributionScore(holders: TokenHolder[], totalSupply: number): number {
   if (!Array.isArray(holders) || holders.length === 0 || totalSupply === 0) return 0
 
   try {
     // Calculate Gini coefficient for distribution
     const sortedHoldings = holders
-      .map((h) => Number.parseFloat(h.TokenHolderQuantity || "0"))
+      .map((h) => h.balance)
       .filter((amount) => !isNaN(amount) && amount > 0)
       .sort((a, b) => a - b)
 
@@ -638,15 +1346,39 @@ function getDefaultSecurityAnalysis(): SecurityAnalysis {
     hasPauseFunction: false,
     hasBlacklistFunction: false,
     hasOwnershipRenounced: false,
+    ownership: getDefaultOwnershipAnalysis(),
+    hiddenOwner: getDefaultHiddenOwnerAnalysis(),
     rugPullRisk: 50,
+    findings: [],
+    privileges: [],
+    balanceWrites: [],
+    tradingRestrictions: getDefaultTradingRestrictionAnalysis(),
+    analysisMethod: "none",
+    codeInspected: false,
+    confidence: "low",
+    bytecode: null,
+    proxy: null,
+    diamond: null,
   }
 }
 
 function getDefaultHolderAnalysis(): HolderAnalysis {
   return {
     totalHolders: 0,
+    totalHoldersExact: false,
+    holders: [],
     top10HoldersPercentage: 100,
     creatorPercentage: 100,
+    creatorHoldings: getDefaultCreatorHoldings(),
     distributionScore: 0,
+    infrastructurePercentage: 0,
+    adjustedTop10HoldersPercentage: 100,
+    adjustedDistributionScore: 0,
+    clusters: getDefaultClusterAnalysis(),
+    balanceCheck: getDefaultBalanceCheck(),
+    provenance: {
+      totalHolders: "unavailable",
+      percentages: "topHolders",
+    },
   }
 }
@@ -0,0 +1,99 @@
+import { useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ChevronDown, ChevronRight } from "lucide-react"
+import type { ComprehensiveAnalysisProps } from "./ComprehensiveAnalysis"
+
+type Privilege = ComprehensiveAnalysisProps["result"]["securityAnalysis"]["privileges"][number]
+
+interface AdminPowersProps {
+  privileges: Privilege[]
+  explorerUrl: string
+}
+
+// Most severe first, mirroring the classification order in lib/analysis/privileges
+const CATEGORIES: Array<{ category: Privilege["category"]; label: string; color: string }> = [
+  { category: "upgrade", label: "Upgrade", color: "bg-red-200 text-red-900" },
+  { category: "supply", label: "Supply control", color: "bg-red-100 text-red-800" },
+  { category: "withdrawal", label: "Fund withdrawal", color: "bg-orange-100 text-orange-800" },
+  { category: "transferGating", label: "Transfer gating", color: "bg-orange-100 text-orange-800" },
+  { category: "fees", label: "Fee control", color: "bg-yellow-100 text-yellow-800" },
+  { category: "cosmetic", label: "Cosmetic", color: "bg-gray-100 text-gray-800" },
+]
+
+const categoryOf = (category: Privilege["category"]) => CATEGORIES.find((entry) => entry.category === category)!
+
+export default function AdminPowers({ privileges, explorerUrl }: AdminPowersProps) {
+  const [open, setOpen] = useState(false)
+
+  if (privileges.length === 0) return null
+
+  const rank = (privilege: Privilege) => CATEGORIES.findIndex((entry) => entry.category === privilege.category)
+  const sorted = [...privileges].sort((a, b) => rank(a) - rank(b))
+  const counts = CATEGORIES.map((entry) => ({
+    ...entry,
+    count: privileges.filter((privilege) => privilege.category === entry.category).length,
+  })).filter((entry) => entry.count > 0)
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mt-6 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="px-0 text-sm font-medium text-gray-500">
+            {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            Admin powers ({privileges.length})
+          </Button>
+        </CollapsibleTrigger>
+        <div className="flex flex-wrap justify-end gap-1">
+          {counts.map((entry) => (
+            <Badge key={entry.category} className={entry.color}>
+              {entry.label}: {entry.count}
+            </Badge>
+          ))}
+        </div>
+      </div>
+      <CollapsibleContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Function</TableHead>
+              <TableHead>Power</TableHead>
+              <TableHead>Restricted by</TableHead>
+              <TableHead>Source</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sorted.map((privilege) => {
+              const { label, color } = categoryOf(privilege.category)
+              return (
+                <TableRow key={`${privilege.address}-${privilege.contract}-${privilege.function}`}>
+                  <TableCell className="font-mono text-xs">
+                    {privilege.contract ? `${privilege.contract}.${privilege.function}` : privilege.function}
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={color}>{label}</Badge>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {privilege.guards.length > 0 ? privilege.guards.join(", ") : "Unknown (bytecode)"}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    <a
+                      href={`${explorerUrl}/address/${privilege.facet ?? privilege.address}#code`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono hover:underline"
+                    >
+                      {privilege.location ? `${privilege.location.file}:${privilege.location.line}` : "bytecode"}
+                    </a>
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
@@ -2,10 +2,18 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { Shield, AlertTriangle, TrendingUp, Users, CheckCircle, XCircle, Info, Lock, Coins } from "lucide-react"
+import { Shield, AlertTriangle, TrendingUp, CheckCircle, XCircle, Info, Lock, Coins, ArrowLeftRight, Droplets, UserSearch, Rocket, Percent } from "lucide-react"
+import AdminPowers from "./AdminPowers"
+import HolderDistribution from "./HolderDistribution"
 
-interface ComprehensiveAnalysisProps {
+export interface ComprehensiveAnalysisProps {
   result: {
+    chain: {
+      id: number
+      name: string
+      explorerName: string
+      explorerUrl: string
+    }
     tokenData: {
       name: string
       symbol: string
@@ -32,13 +40,326 @@ interface ComprehensiveAnalysisProps {
       hasPauseFunction: boolean
       hasBlacklistFunction: boolean
       hasOwnershipRenounced: boolean
+      ownership: {
+        type: "renounced" | "eoa" | "safe" | "timelock" | "contract" | "none"
+        safe: { threshold: number; owners: string[] } | null
+        timelockDelay: number | null
+        controller: string | null
+        controllerSource: string | null
+        pendingOwner: string | null
+        roles: Array<{ role: string; members: string[] }>
+      }
+      hiddenOwner: {
+        findings: Array<{
+          pattern: "secondOwner" | "fakeRenounce" | "lockUnlock" | "ownerBackdoor"
+          function: string | null
+          variable: string | null
+          location: { file: string; line: number; column: number } | null
+          description: string
+        }>
+        storedOwner: string | null
+        previousOwner: string | null
+        privilegedAddresses: Array<{
+          variable: string
+          address: string | null
+          functions: string[]
+          powers: Array<"supply" | "fees" | "transferGating" | "withdrawal" | "upgrade" | "cosmetic">
+        }>
+        appearsRenounced: boolean
+        hiddenController: string | null
+        analysisMethod: "source" | "bytecode" | "none"
+      }
       rugPullRisk: number
+      findings: Array<{
+        capability: string
+        contract: string
+        function: string
+        modifiers: string[]
+        guarded: boolean | null
+        location: { file: string; line: number; column: number } | null
+        description: string
+        confidence: "high" | "medium" | "low"
+        facet?: string
+      }>
+      privileges: Array<{
+        contract: string
+        function: string
+        guards: string[]
+        category: "supply" | "fees" | "transferGating" | "withdrawal" | "upgrade" | "cosmetic"
+        location: { file: string; line: number; column: number } | null
+        confidence: "high" | "medium" | "low"
+        facet?: string
+        address: string
+      }>
+      balanceWrites: Array<{
+        contract: string
+        function: string
+        modifiers: string[]
+        guards: string[]
+        variables: string[]
+        balances: "increase" | "decrease" | "overwrite" | "both" | null
+        supply: "increase" | "decrease" | "overwrite" | "both" | null
+        debitsOthers: boolean
+        location: { file: string; line: number; column: number }
+        address: string
+      }>
+      tradingRestrictions: {
+        restrictions: Array<{
+          kind: "maxTransaction" | "maxWallet" | "cooldown" | "tradingEnabled"
+          getter: string
+          value: boolean | string | null
+          percentage: number | null
+        }>
+        setters: Array<{
+          function: string
+          modifiers: string[]
+          guarded: boolean | null
+          kinds: Array<"maxTransaction" | "maxWallet" | "cooldown" | "tradingEnabled">
+          blocking: boolean | null
+        }>
+        tradingEnabled: boolean | null
+        canBlockTrading: boolean
+        changeableBy: "anyone" | "owner" | "nobody" | null
+        analysisMethod: "source" | "bytecode" | "none"
+      }
+      analysisMethod: "source" | "bytecode" | "none"
+      confidence: "high" | "medium" | "low"
+      bytecode: {
+        size: number
+        selectorCount: number
+        hasDelegatecall: boolean
+        hasSelfdestruct: boolean
+        minimalProxyImplementation: string | null
+      } | null
+      proxy: {
+        type: "transparent" | "uups" | "eip1967" | "beacon" | "eip1822" | "zeppelinos"
+        implementation: string
+        admin: string | null
+        beacon: string | null
+        upgradeController: ComprehensiveAnalysisProps["result"]["securityAnalysis"]["ownership"]
+        implementationAnalysis: {
+          address: string
+          contractName: string | null
+          isVerified: boolean
+          analysisMethod: "source" | "bytecode" | "none"
+          confidence: "high" | "medium" | "low"
+          findings: unknown[]
+        }
+        upgradeHistory: {
+          events: Array<{
+            type: "upgraded" | "adminChanged" | "beaconUpgraded"
+            emitter: string
+            address: string
+            previous: string | null
+            blockNumber: number
+            timestamp: number
+            transactionHash: string
+          }>
+          implementations: Array<{ address: string; since: number; verified: boolean }>
+          timelineComplete: boolean
+          diffs: Array<{
+            from: string
+            to: string
+            timestamp: number
+            transactionHash: string
+            added: string[]
+            removed: string[]
+            changed: string[]
+            addedCapabilities: string[]
+          }>
+        }
+      } | null
+      diamond: {
+        upgradeable: boolean
+        facets: Array<{
+          address: string
+          contractName: string | null
+          isVerified: boolean
+          analysisMethod: "source" | "bytecode" | "none"
+          selectors: string[]
+          findings: unknown[]
+        }>
+      } | null
     }
     holderAnalysis: {
       totalHolders: number
+      totalHoldersExact: boolean
+      holders: Array<{
+        address: string
+        balance: number
+        percentage: number
+        label: "pool" | "burn" | "locker" | "vesting" | "exchange" | "bridge" | "multisig" | "contract" | "eoa"
+        name: string | null
+      }>
       top10HoldersPercentage: number
       creatorPercentage: number
+      creatorHoldings: {
+        deployer: string | null
+        owner: string | null
+        deployerPercentage: number
+        ownerPercentage: number
+        directPercentage: number
+        linkedWallets: Array<{ address: string; percentage: number }>
+        linkedPercentage: number
+      }
       distributionScore: number
+      infrastructurePercentage: number
+      adjustedTop10HoldersPercentage: number
+      adjustedDistributionScore: number
+      clusters: {
+        clusters: Array<{
+          members: string[]
+          percentage: number
+          floatPercentage: number
+          links: Array<{
+            kind: "fundingTransaction" | "funder" | "tokenTransfer"
+            value: string
+            blockNumber: number | null
+            members: string[]
+          }>
+        }>
+        holdersChecked: number
+        clusteredPercentage: number
+        largestEffectiveHolder: { members: string[]; percentage: number; floatPercentage: number } | null
+      }
+      balanceCheck: {
+        holdersChecked: number
+        sumPercentage: number | null
+        complete: boolean
+        inconsistent: boolean
+        reason: string | null
+      }
+      provenance: { totalHolders: string; percentages: "totalSupply" | "topHolders" }
+    }
+    liquidityAnalysis: {
+      pools: Array<{
+        dex: string
+        version: "v2" | "v3"
+        address: string
+        quoteToken: string
+        quoteSymbol: string
+        fee: number | null
+        tokenReserve: number
+        quoteReserve: number
+        liquidityUsd: number | null
+      }>
+      totalLiquidityUsd: number
+      fullyValued: boolean
+      mainPool: { dex: string; address: string; liquidityUsd: number | null } | null
+      nativePriceUsd: number | null
+      tokenPriceUsd: number | null
+      liquidityToMarketCap: number | null
+    }
+    lpLockAnalysis: {
+      deployer: string | null
+      pools: Array<{
+        dex: string
+        pool: string
+        liquidityUsd: number | null
+        holders: Array<{ address: string; percentage: number; class: string; locker: string | null }>
+        percentageLocked: number
+        percentageBurned: number
+        deployerPercentage: number
+        largestUnlockedEoa: { address: string; percentage: number; isDeployer: boolean } | null
+        locks: Array<{ locker: string; owner: string; percentage: number; unlockTime: number }>
+      }>
+      percentageLocked: number
+      percentageBurned: number
+      deployerPercentage: number
+      earliestUnlock: number | null
+    }
+    honeypotAnalysis: {
+      simulated: boolean
+      dex: string | null
+      pair: string | null
+      amountIn: string | null
+      canBuy: boolean
+      canSell: boolean
+      canTransfer: boolean | null
+      transferError: string | null
+      buyTax: number | null
+      sellTax: number | null
+      transferTax: number | null
+      gasUsed: { buy: number | null; sell: number | null; transfer: number | null }
+      error: string | null
+    }
+    feeAnalysis: {
+      buyFee: number | null
+      sellFee: number | null
+      transferFee: number | null
+      readings: Array<{ getter: string; kind: "buy" | "sell" | "transfer" | "all"; value: number; percentage: number }>
+      denominator: number
+      denominatorAssumed: boolean
+      setters: Array<{
+        function: string
+        modifiers: string[]
+        guarded: boolean | null
+        capped: boolean | null
+        capPercentage: number | null
+      }>
+      maxFeePercentage: number | null
+      changeableBy: "anyone" | "owner" | "nobody" | null
+      controller: string | null
+      analysisMethod: "source" | "bytecode" | "none"
+    }
+    deployerAnalysis: {
+      deployer: string | null
+      creationTxHash: string | null
+      creationBlock: number | null
+      creationTimestamp: number | null
+      contractAgeDays: number | null
+      walletFirstSeen: number | null
+      walletAgeAtDeploymentDays: number | null
+      fundedBy: {
+        address: string
+        label: { name: string; kind: "mixer" | "exchange" } | null
+        txHash: string
+        timestamp: number
+        amount: number
+      } | null
+      fundingToDeploymentHours: number | null
+      contractsDeployed: number
+      otherTokens: Array<{
+        address: string
+        deployer: string
+        name: string | null
+        symbol: string | null
+        txHash: string
+        timestamp: number
+      }>
+      fundedWallets: string[]
+      fundedWalletTokens: ComprehensiveAnalysisProps["result"]["deployerAnalysis"]["otherTokens"]
+      priorTokens: Array<
+        ComprehensiveAnalysisProps["result"]["deployerAnalysis"]["otherTokens"][number] & {
+          status: "active" | "rugged" | "unlaunched"
+          reason: string | null
+          liquidityUsd: number
+          athChangePercentage: number | null
+          riskScore: number
+        }
+      >
+      historyTruncated: boolean
+    }
+    launchAnalysis: {
+      pool: string | null
+      liquidityAddedBlock: number | null
+      liquidityAddedTimestamp: number | null
+      windowBlocks: number
+      buys: Array<{
+        buyer: string
+        transactionHash: string
+        blockNumber: number
+        blockOffset: number
+        percentage: number
+        bundled: boolean
+        insider: boolean
+        sniperBot: string | null
+      }>
+      launchPercentage: number
+      bundledPercentage: number
+      insiderPercentage: number
+      sniperPercentage: number
+      buyersChecked: number
     }
     riskFactors: Array<{
       category: string
@@ -58,6 +379,12 @@ export default function ComprehensiveAnalysis({ result }: ComprehensiveAnalysisP
     marketData,
     securityAnalysis,
     holderAnalysis,
+    liquidityAnalysis,
+    lpLockAnalysis,
+    honeypotAnalysis,
+    feeAnalysis,
+    deployerAnalysis,
+    launchAnalysis,
     riskFactors,
     overallRiskScore,
     riskLevel,
@@ -103,6 +430,31 @@ export default function ComprehensiveAnalysis({ result }: ComprehensiveAnalysisP
     return `$${num.toFixed(2)}`
   }
 
+  const describeController = (ownership: ComprehensiveAnalysisProps["result"]["securityAnalysis"]["ownership"]) => {
+    switch (ownership.type) {
+      case "renounced":
+        return "Renounced"
+      case "eoa":
+        return "Single wallet (EOA)"
+      case "safe":
+        return `Gnosis Safe (${ownership.safe?.threshold}/${ownership.safe?.owners.length})`
+      case "timelock":
+        return `Timelock (${((ownership.timelockDelay ?? 0) / 3600).toFixed(1)}h delay)`
+      case "contract":
+        return "Contract"
+      default:
+        return "No owner"
+    }
+  }
+
+  const formatDays = (days: number | null) => {
+    if (days === null) return "-"
+    if (days < 1) return `${Math.max(days * 24, 0).toFixed(1)} hours`
+    return `${Math.floor(days).toLocaleString()} days`
+  }
+
+  const formatTax = (tax: number | null) => (tax === null ? "-" : `${tax.toFixed(1)}%`)
+
   const formatSupply = (supply: string, decimals: number) => {
     const num = Number.parseFloat(supply) / Math.pow(10, decimals)
     if (num >= 1e12) return `${(num / 1e12).toFixed(2)}T`
@@ -112,6 +464,35 @@ export default function ComprehensiveAnalysis({ result }: ComprehensiveAnalysisP
     return num.toFixed(2)
   }
 
+  const RESTRICTION_NAMES = {
+    maxTransaction: "Max transaction",
+    maxWallet: "Max wallet",
+    cooldown: "Cooldown",
+    tradingEnabled: "Trading enabled",
+  }
+
+  const formatRestriction = (
+    restriction: ComprehensiveAnalysisProps["result"]["securityAnalysis"]["tradingRestrictions"]["restrictions"][number],
+  ) => {
+    if (restriction.value === null) return "-"
+    if (typeof restriction.value === "boolean") return restriction.value ? "On" : "Off"
+    if (restriction.kind === "cooldown") return `${restriction.value}s`
+    const amount = formatSupply(restriction.value, tokenData.decimals)
+    return restriction.percentage !== null ? `${amount} (${restriction.percentage.toFixed(2)}% of supply)` : amount
+  }
+
+  // What a path does to balances: moves them (a transfer), credits or debits them, or sets them outright
+  const describeBalanceWrite = (
+    path: ComprehensiveAnalysisProps["result"]["securityAnalysis"]["balanceWrites"][number],
+  ) => {
+    if (path.balances === "both") return { label: "transfer", color: "bg-gray-100 text-gray-800" }
+    if (path.balances === "increase") return { label: "credit", color: "bg-orange-100 text-orange-800" }
+    if (path.balances === "overwrite") return { label: "set", color: "bg-red-100 text-red-800" }
+    return path.debitsOthers
+      ? { label: "takes from others", color: "bg-red-100 text-red-800" }
+      : { label: "debit", color: "bg-gray-100 text-gray-800" }
+  }
+
   return (
     <div className="space-y-6">
       {/* Overall Risk Assessment */}
@@ -215,6 +596,121 @@ export default function ComprehensiveAnalysis({ result }: ComprehensiveAnalysisP
         </Card>
       )}
 
+      {/* Liquidity */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Droplets className="h-5 w-5" />
+            Liquidity
+          </CardTitle>
+          <CardDescription>
+            {liquidityAnalysis.pools.length > 0
+              ? `${liquidityAnalysis.pools.length} pool${liquidityAnalysis.pools.length === 1 ? "" : "s"} found on ${result.chain.name} DEXes`
+              : "No pools found against the native token or stablecoins"}
+          </CardDescription>
+        </CardHeader>
+        {liquidityAnalysis.pools.length > 0 && (
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="text-sm font-medium text-gray-500">Total Liquidity</label>
+                <p className="text-lg font-semibold">
+                  {!liquidityAnalysis.fullyValued && "≥ "}
+                  {formatNumber(liquidityAnalysis.totalLiquidityUsd)}
+                </p>
+                {!liquidityAnalysis.fullyValued && (
+                  <p className="text-xs text-gray-500">Some pools could not be priced</p>
+                )}
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-500">Liquidity / Market Cap</label>
+                <p className="text-lg font-semibold">
+                  {liquidityAnalysis.liquidityToMarketCap !== null
+                    ? `${(liquidityAnalysis.liquidityToMarketCap * 100).toFixed(2)}%`
+                    : "-"}
+                </p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-500">Pool Price</label>
+                <p className="text-lg font-semibold">
+                  {liquidityAnalysis.tokenPriceUsd !== null ? `$${liquidityAnalysis.tokenPriceUsd.toFixed(6)}` : "-"}
+                </p>
+              </div>
+            </div>
+            <div className="mt-6 space-y-2">
+              {liquidityAnalysis.pools.map((pool) => (
+                <div key={pool.address} className="flex items-center justify-between p-3 rounded-lg border">
+                  <div className="flex items-center gap-3">
+                    <Badge variant="outline">{pool.dex}</Badge>
+                    <div>
+                      <p className="text-sm font-medium">
+                        {tokenData.symbol}/{pool.quoteSymbol}
+                        {pool.fee !== null && ` ${pool.fee / 10000}%`}
+                      </p>
+                      <a
+                        href={`${result.chain.explorerUrl}/address/${pool.address}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-gray-500 font-mono hover:underline"
+                      >
+                        {pool.address}
+                      </a>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm font-semibold">
+                      {pool.liquidityUsd !== null ? formatNumber(pool.liquidityUsd) : "-"}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {pool.quoteReserve.toLocaleString(undefined, { maximumFractionDigits: 2 })} {pool.quoteSymbol}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+            {lpLockAnalysis.pools.length > 0 && (
+              <div className="mt-6 space-y-2">
+                <h4 className="text-sm font-medium text-gray-500">LP Ownership</h4>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-3 rounded-lg border">
+                  <div>
+                    <label className="text-sm text-gray-500">Locked</label>
+                    <p className="font-semibold">{lpLockAnalysis.percentageLocked.toFixed(1)}%</p>
+                  </div>
+                  <div>
+                    <label className="text-sm text-gray-500">Burned</label>
+                    <p className="font-semibold">{lpLockAnalysis.percentageBurned.toFixed(1)}%</p>
+                  </div>
+                  <div>
+                    <label className="text-sm text-gray-500">Deployer Held</label>
+                    <p className="font-semibold">{lpLockAnalysis.deployerPercentage.toFixed(1)}%</p>
+                  </div>
+                  <div>
+                    <label className="text-sm text-gray-500">Earliest Unlock</label>
+                    <p className="font-semibold">
+                      {lpLockAnalysis.earliestUnlock !== null
+                        ? new Date(lpLockAnalysis.earliestUnlock * 1000).toLocaleDateString()
+                        : "-"}
+                    </p>
+                  </div>
+                </div>
+                {lpLockAnalysis.pools.map((pool) =>
+                  pool.largestUnlockedEoa && pool.largestUnlockedEoa.percentage > 50 ? (
+                    <Alert key={pool.pool} className="border-red-200 bg-red-50">
+                      <XCircle className="h-4 w-4 text-red-600" />
+                      <AlertDescription className="text-red-800">
+                        {pool.largestUnlockedEoa.percentage.toFixed(1)}% of the {pool.dex} LP is held unlocked by{" "}
+                        {pool.largestUnlockedEoa.isDeployer ? "the deployer" : "a single wallet"} (
+                        <span className="font-mono">{pool.largestUnlockedEoa.address}</span>)
+                      </AlertDescription>
+                    </Alert>
+                  ) : null,
+                )}
+              </div>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
       {/* Security Analysis */}
       <Card>
         <CardHeader>
@@ -222,6 +718,15 @@ export default function ComprehensiveAnalysis({ result }: ComprehensiveAnalysisP
             <Lock className="h-5 w-5" />
             Security Analysis
           </CardTitle>
+          {securityAnalysis.analysisMethod !== "none" && (
+            <CardDescription>
+              {securityAnalysis.analysisMethod === "source"
+                ? "Based on verified source code"
+                : `Inferred from deployed bytecode (${securityAnalysis.bytecode?.selectorCount ?? 0} functions found, ${securityAnalysis.confidence} confidence)`}
+              {securityAnalysis.bytecode?.minimalProxyImplementation &&
+                ` - minimal proxy for ${securityAnalysis.bytecode.minimalProxyImplementation}`}
+            </CardDescription>
+          )}
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -280,44 +785,684 @@ export default function ComprehensiveAnalysis({ result }: ComprehensiveAnalysisP
               </div>
             </div>
           </div>
+          {securityAnalysis.proxy && (
+            <div className="mt-6 p-3 rounded-lg border space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">Proxy</span>
+                <Badge variant="outline">{securityAnalysis.proxy.type}</Badge>
+              </div>
+              <p className="text-xs text-gray-500">
+                Implementation:{" "}
+                <a
+                  href={`${result.chain.explorerUrl}/address/${securityAnalysis.proxy.implementation}#code`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-mono hover:underline"
+                >
+                  {securityAnalysis.proxy.implementation}
+                </a>
+              </p>
+              {securityAnalysis.proxy.admin && (
+                <p className="text-xs text-gray-500">
+                  Proxy admin: <span className="font-mono">{securityAnalysis.proxy.admin}</span>
+                </p>
+              )}
+              {securityAnalysis.proxy.beacon && (
+                <p className="text-xs text-gray-500">
+                  Beacon: <span className="font-mono">{securityAnalysis.proxy.beacon}</span>
+                </p>
+              )}
+              <p className="text-xs text-gray-500">
+                Upgrades controlled by: {describeController(securityAnalysis.proxy.upgradeController)}
+                {securityAnalysis.proxy.upgradeController.controller &&
+                  ` (${securityAnalysis.proxy.upgradeController.controllerSource}: ${securityAnalysis.proxy.upgradeController.controller})`}
+              </p>
+              <div className="mt-2 p-2 rounded bg-gray-50 text-xs text-gray-600">
+                Capabilities above come from the implementation
+                {securityAnalysis.proxy.implementationAnalysis.contractName &&
+                  ` ${securityAnalysis.proxy.implementationAnalysis.contractName}`}
+                {" - "}
+                {securityAnalysis.proxy.implementationAnalysis.isVerified ? "verified" : "not verified"},{" "}
+                {securityAnalysis.proxy.implementationAnalysis.analysisMethod === "source"
+                  ? "analyzed from source"
+                  : securityAnalysis.proxy.implementationAnalysis.analysisMethod === "bytecode"
+                    ? "analyzed from bytecode"
+                    : "not analyzed"}
+                , {securityAnalysis.proxy.implementationAnalysis.findings.length} finding
+                {securityAnalysis.proxy.implementationAnalysis.findings.length === 1 ? "" : "s"}
+              </div>
+              {securityAnalysis.proxy.upgradeHistory.events.length > 0 && (
+                <div className="mt-2 space-y-1">
+                  <p className="text-xs font-medium">Upgrade history</p>
+                  {securityAnalysis.proxy.upgradeHistory.events.map((event) => {
+                    const diff = securityAnalysis.proxy!.upgradeHistory.diffs.find(
+                      (diff) => event.type !== "adminChanged" && diff.transactionHash === event.transactionHash,
+                    )
+                    return (
+                      <div key={`${event.transactionHash}-${event.type}`} className="text-xs text-gray-500">
+                        <a
+                          href={`${result.chain.explorerUrl}/tx/${event.transactionHash}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="hover:underline"
+                        >
+                          {new Date(event.timestamp * 1000).toLocaleDateString()}
+                        </a>
+                        {" - "}
+                        {event.type === "adminChanged"
+                          ? "admin changed to "
+                          : event.type === "beaconUpgraded"
+                            ? "beacon set to "
+                            : "implementation set to "}
+                        <span className="font-mono">{event.address}</span>
+                        {diff && (
+                          <span>
+                            {" "}
+                            (+{diff.added.length} / -{diff.removed.length} / ~{diff.changed.length} functions
+                            {diff.addedCapabilities.length > 0 && (
+                              <span className="text-red-600">, adds {diff.addedCapabilities.join(", ")}</span>
+                            )}
+                            )
+                          </span>
+                        )}
+                        {diff && diff.added.length + diff.removed.length + diff.changed.length > 0 && (
+                          <div className="ml-4 font-mono">
+                            {diff.added.map((signature) => (
+                              <p key={`+${signature}`} className="text-green-700">+ {signature}</p>
+                            ))}
+                            {diff.removed.map((signature) => (
+                              <p key={`-${signature}`} className="text-red-700">- {signature}</p>
+                            ))}
+                            {diff.changed.map((signature) => (
+                              <p key={`~${signature}`}>~ {signature}</p>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+              {!securityAnalysis.proxy.upgradeHistory.timelineComplete && (
+                <p className="mt-2 text-xs text-yellow-700">
+                  Implementation timeline unavailable: a beacon this proxy used has no upgrade logs
+                </p>
+              )}
+            </div>
+          )}
+          {securityAnalysis.diamond && (
+            <div className="mt-6 p-3 rounded-lg border space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">Diamond (EIP-2535)</span>
+                <Badge variant="outline">
+                  {securityAnalysis.diamond.facets.length} facets
+                  {securityAnalysis.diamond.upgradeable ? ", upgradeable" : ""}
+                </Badge>
+              </div>
+              {securityAnalysis.diamond.facets.map((facet) => (
+                <p key={facet.address} className="text-xs text-gray-500">
+                  <a
+                    href={`${result.chain.explorerUrl}/address/${facet.address}#code`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-mono hover:underline"
+                  >
+                    {facet.address}
+                  </a>
+                  {facet.contractName && ` ${facet.contractName}`} - {facet.selectors.length} functions,{" "}
+                  {facet.findings.length} finding{facet.findings.length === 1 ? "" : "s"}
+                  {!facet.isVerified && " (not verified)"}
+                </p>
+              ))}
+            </div>
+          )}
+          <div className="mt-6 p-3 rounded-lg border">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">Controller</span>
+              <Badge
+                variant="outline"
+                className={
+                  securityAnalysis.ownership.type === "renounced" || securityAnalysis.ownership.type === "none"
+                    ? "text-green-700"
+                    : securityAnalysis.ownership.type === "eoa"
+                      ? "text-red-700"
+                      : "text-yellow-700"
+                }
+              >
+                {describeController(securityAnalysis.ownership)}
+              </Badge>
+            </div>
+            {securityAnalysis.ownership.controller && securityAnalysis.ownership.type !== "renounced" && (
+              <p className="text-xs text-gray-500 font-mono mt-1">
+                {securityAnalysis.ownership.controllerSource}: {securityAnalysis.ownership.controller}
+              </p>
+            )}
+            {securityAnalysis.ownership.pendingOwner && (
+              <p className="text-xs text-gray-500 font-mono mt-1">
+                pendingOwner(): {securityAnalysis.ownership.pendingOwner}
+              </p>
+            )}
+            {securityAnalysis.ownership.roles.map((role) => (
+              <p key={role.role} className="text-xs text-gray-500 mt-1">
+                {role.role}: <span className="font-mono">{role.members.join(", ")}</span>
+              </p>
+            ))}
+            {securityAnalysis.hiddenOwner.appearsRenounced && (
+              <Alert className="mt-3 border-red-200 bg-red-50">
+                <XCircle className="h-4 w-4 text-red-600" />
+                <AlertDescription className="text-red-800">
+                  Ownership only appears renounced
+                  {securityAnalysis.hiddenOwner.hiddenController && (
+                    <>
+                      : <span className="font-mono">{securityAnalysis.hiddenOwner.hiddenController}</span> keeps control
+                    </>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+            {securityAnalysis.hiddenOwner.findings.map((finding, index) => (
+              <p key={index} className="text-xs text-red-700 mt-1">
+                {finding.description}
+                {finding.location && (
+                  <span className="text-gray-500 font-mono">
+                    {" "}
+                    - {finding.location.file}:{finding.location.line}
+                  </span>
+                )}
+              </p>
+            ))}
+            {securityAnalysis.hiddenOwner.privilegedAddresses
+              .filter((entry) => entry.address !== null)
+              .map((entry) => (
+                <p key={entry.variable} className="text-xs text-gray-500 mt-1">
+                  {entry.variable}: <span className="font-mono">{entry.address}</span> (can call{" "}
+                  {entry.functions.map((fn) => `${fn.split("(")[0]}()`).join(", ")})
+                </p>
+              ))}
+          </div>
+          <AdminPowers privileges={securityAnalysis.privileges} explorerUrl={result.chain.explorerUrl} />
+          {securityAnalysis.balanceWrites.length > 0 && (
+            <div className="mt-6 space-y-2">
+              <h4 className="text-sm font-medium text-gray-500">Balance and Supply Writes</h4>
+              {securityAnalysis.balanceWrites.map((path) => (
+                <div
+                  key={`${path.address}-${path.contract}-${path.function}`}
+                  className="flex items-center justify-between p-2 rounded border text-xs"
+                >
+                  <div>
+                    <span className="font-mono">{path.function}</span>
+                    <span className="text-gray-500">
+                      {" "}
+                      {path.guards.length > 0 ? path.guards.join(", ") : "anyone"} - {path.location.file}:{path.location.line}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {path.balances && (
+                      <Badge className={describeBalanceWrite(path).color}>balances: {describeBalanceWrite(path).label}</Badge>
+                    )}
+                    {path.supply && <Badge variant="outline">supply: {path.supply}</Badge>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {securityAnalysis.tradingRestrictions.analysisMethod !== "none" && (
+            <div className="mt-6 space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium text-gray-500">Trading Restrictions</h4>
+                {securityAnalysis.tradingRestrictions.changeableBy && (
+                  <span className="text-xs text-gray-500">
+                    changeable by {securityAnalysis.tradingRestrictions.changeableBy}
+                  </span>
+                )}
+              </div>
+              {securityAnalysis.tradingRestrictions.restrictions.map((restriction) => (
+                <div key={restriction.getter} className="flex items-center justify-between p-3 rounded-lg border">
+                  <div>
+                    <p className="text-sm font-medium">{RESTRICTION_NAMES[restriction.kind]}</p>
+                    <p className="text-xs text-gray-500 font-mono">{restriction.getter}()</p>
+                  </div>
+                  <span
+                    className={`text-sm ${restriction.kind === "tradingEnabled" && restriction.value === false ? "text-red-600 font-medium" : ""}`}
+                  >
+                    {formatRestriction(restriction)}
+                  </span>
+                </div>
+              ))}
+              {securityAnalysis.tradingRestrictions.setters.map((setter) => (
+                <div key={setter.function} className="flex items-center justify-between p-2 rounded border text-xs">
+                  <div>
+                    <span className="font-mono">{setter.function}</span>
+                    {setter.modifiers.length > 0 && <span className="text-gray-500"> {setter.modifiers.join(" ")}</span>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {setter.guarded === false && <Badge className="bg-red-200 text-red-900">anyone</Badge>}
+                    {setter.blocking && <Badge className="bg-red-100 text-red-800">can stop trading</Badge>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {securityAnalysis.findings.length > 0 && (
+            <div className="mt-6 space-y-2">
+              <h4 className="text-sm font-medium text-gray-500">Findings</h4>
+              {securityAnalysis.findings.map((finding, index) => (
+                <div key={index} className="flex items-start gap-3 p-3 rounded-lg border">
+                  <Badge variant="outline">{finding.capability}</Badge>
+                  <div className="flex-1">
+                    <p className="text-sm font-medium">{finding.description}</p>
+                    <p className="text-xs text-gray-500 font-mono">
+                      {finding.location
+                        ? `${finding.contract}.${finding.function} - ${finding.location.file}:${finding.location.line}`
+                        : `${finding.function} (bytecode)`}
+                      {finding.facet && ` - facet ${finding.facet}`}
+                    </p>
+                    {finding.guarded !== null && (
+                      <p className="text-xs text-gray-500">
+                        {finding.guarded
+                          ? `Restricted${finding.modifiers.length > 0 ? ` by ${finding.modifiers.join(", ")}` : ""}`
+                          : "Callable by anyone"}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
-      {/* Holder Analysis */}
-      {/* <Card>
+      {/* Trading Simulation */}
+      <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
-            <Users className="h-5 w-5" />
-            Holder Distribution
+            <ArrowLeftRight className="h-5 w-5" />
+            Trading Simulation
           </CardTitle>
+          <CardDescription>
+            {honeypotAnalysis.simulated
+              ? `Buy, transfer and sell simulated on a fork via ${honeypotAnalysis.dex}`
+              : honeypotAnalysis.error ?? "Simulation not available"}
+          </CardDescription>
         </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-            <div>
-              <label className="text-sm font-medium text-gray-500">Total Holders</label>
-              <p className="text-lg font-semibold">{holderAnalysis.totalHolders.toLocaleString()}</p>
+        {honeypotAnalysis.simulated && (
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-4">
+                <div className="flex items-center justify-between p-3 rounded-lg border">
+                  <span className="font-medium">Can Buy</span>
+                  {honeypotAnalysis.canBuy ? (
+                    <CheckCircle className="h-5 w-5 text-green-500" />
+                  ) : (
+                    <XCircle className="h-5 w-5 text-red-500" />
+                  )}
+                </div>
+                <div className="flex items-center justify-between p-3 rounded-lg border">
+                  <span className="font-medium">Can Sell</span>
+                  {honeypotAnalysis.canSell ? (
+                    <CheckCircle className="h-5 w-5 text-green-500" />
+                  ) : (
+                    <XCircle className="h-5 w-5 text-red-500" />
+                  )}
+                </div>
+                {honeypotAnalysis.canTransfer !== null && (
+                  <div className="flex items-center justify-between p-3 rounded-lg border">
+                    <span className="font-medium">Can Transfer</span>
+                    {honeypotAnalysis.canTransfer ? (
+                      <CheckCircle className="h-5 w-5 text-green-500" />
+                    ) : (
+                      <AlertTriangle className="h-5 w-5 text-yellow-500" />
+                    )}
+                  </div>
+                )}
+              </div>
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Buy Tax:</span>
+                  <span className="font-medium">{formatTax(honeypotAnalysis.buyTax)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Sell Tax:</span>
+                  <span className="font-medium">{formatTax(honeypotAnalysis.sellTax)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Transfer Tax:</span>
+                  <span className="font-medium">{formatTax(honeypotAnalysis.transferTax)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Gas (buy / sell):</span>
+                  <span className="font-medium">
+                    {honeypotAnalysis.gasUsed.buy?.toLocaleString() ?? "-"} /{" "}
+                    {honeypotAnalysis.gasUsed.sell?.toLocaleString() ?? "-"}
+                  </span>
+                </div>
+              </div>
             </div>
-            <div>
-              <label className="text-sm font-medium text-gray-500">Top 10 Holders</label>
-              <p className="text-lg font-semibold">{holderAnalysis.top10HoldersPercentage.toFixed(1)}%</p>
-              <p className="text-xs text-gray-500">of total supply</p>
+            {honeypotAnalysis.transferError && (
+              <Alert className="mt-4 border-yellow-200 bg-yellow-50">
+                <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                <AlertDescription className="text-yellow-800">{honeypotAnalysis.transferError}</AlertDescription>
+              </Alert>
+            )}
+            {honeypotAnalysis.error && (
+              <Alert className="mt-4 border-red-200 bg-red-50">
+                <XCircle className="h-4 w-4 text-red-600" />
+                <AlertDescription className="text-red-800">{honeypotAnalysis.error}</AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Fees */}
+      {feeAnalysis.analysisMethod !== "none" && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Percent className="h-5 w-5" />
+              Fees
+            </CardTitle>
+            <CardDescription>
+              Configured on-chain
+              {feeAnalysis.denominatorAssumed
+                ? ", assuming fees are in percent"
+                : `, out of ${feeAnalysis.denominator.toLocaleString()}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <label className="text-sm font-medium text-gray-500">Buy Fee</label>
+                <p className="text-lg font-semibold">{formatTax(feeAnalysis.buyFee)}</p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-500">Sell Fee</label>
+                <p className="text-lg font-semibold">{formatTax(feeAnalysis.sellFee)}</p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-500">Transfer Fee</label>
+                <p className="text-lg font-semibold">{formatTax(feeAnalysis.transferFee)}</p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-500">Maximum Fee</label>
+                <p className="text-lg font-semibold">
+                  {feeAnalysis.setters.length === 0 ? "Fixed" : formatTax(feeAnalysis.maxFeePercentage)}
+                </p>
+                {feeAnalysis.changeableBy && (
+                  <p className="text-xs text-gray-500">
+                    changeable by{" "}
+                    {feeAnalysis.changeableBy === "owner" && feeAnalysis.controller
+                      ? `${feeAnalysis.controller.slice(0, 6)}...${feeAnalysis.controller.slice(-4)} (${describeController(securityAnalysis.ownership)})`
+                      : feeAnalysis.changeableBy}
+                  </p>
+                )}
+              </div>
             </div>
-            <div>
-              <label className="text-sm font-medium text-gray-500">Creator Holdings</label>
-              <p className="text-lg font-semibold">{holderAnalysis.creatorPercentage.toFixed(1)}%</p>
-              <p className="text-xs text-gray-500">of total supply</p>
+            {feeAnalysis.setters.length > 0 && (
+              <div className="mt-4 space-y-2">
+                <p className="text-sm font-medium">Fee setters</p>
+                {feeAnalysis.setters.map((setter) => (
+                  <div key={setter.function} className="flex items-center justify-between p-2 rounded border text-xs">
+                    <div>
+                      <span className="font-mono">{setter.function}</span>
+                      {setter.modifiers.length > 0 && <span className="text-gray-500"> {setter.modifiers.join(" ")}</span>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {setter.guarded === false && <Badge className="bg-red-200 text-red-900">anyone</Badge>}
+                      <Badge
+                        className={
+                          setter.capped === false
+                            ? "bg-red-100 text-red-800"
+                            : setter.capped
+                              ? "bg-green-100 text-green-800"
+                              : "bg-gray-100 text-gray-800"
+                        }
+                      >
+                        {setter.capped === false
+                          ? "no cap"
+                          : setter.capped
+                            ? `cap ${formatTax(setter.capPercentage)}`
+                            : "cap unknown"}
+                      </Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Deployer */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserSearch className="h-5 w-5" />
+            Deployer
+          </CardTitle>
+          <CardDescription>
+            {deployerAnalysis.deployer ? (
+              <a
+                href={`${result.chain.explorerUrl}/address/${deployerAnalysis.deployer}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-mono hover:underline"
+              >
+                {deployerAnalysis.deployer}
+              </a>
+            ) : (
+              "Contract creation not found"
+            )}
+          </CardDescription>
+        </CardHeader>
+        {deployerAnalysis.deployer && (
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Contract Age:</span>
+                  <span className="font-medium">{formatDays(deployerAnalysis.contractAgeDays)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Deployed:</span>
+                  <span className="font-medium">
+                    {deployerAnalysis.creationTxHash ? (
+                      <a
+                        href={`${result.chain.explorerUrl}/tx/${deployerAnalysis.creationTxHash}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="hover:underline"
+                      >
+                        {deployerAnalysis.creationTimestamp
+                          ? new Date(deployerAnalysis.creationTimestamp * 1000).toLocaleString()
+                          : "transaction"}
+                      </a>
+                    ) : (
+                      "-"
+                    )}
+                    {deployerAnalysis.creationBlock !== null && ` (block ${deployerAnalysis.creationBlock.toLocaleString()})`}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Wallet Age at Deployment:</span>
+                  <span className="font-medium">{formatDays(deployerAnalysis.walletAgeAtDeploymentDays)}</span>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Funded By:</span>
+                  <span className="font-medium">
+                    {deployerAnalysis.fundedBy
+                      ? deployerAnalysis.fundedBy.label?.name ??
+                        `${deployerAnalysis.fundedBy.address.slice(0, 6)}...${deployerAnalysis.fundedBy.address.slice(-4)}`
+                      : "-"}
+                  </span>
+                </div>
+                {deployerAnalysis.fundingToDeploymentHours !== null && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Funding to Deployment:</span>
+                    <span className="font-medium">{formatDays(deployerAnalysis.fundingToDeploymentHours / 24)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Deployer / Owner Hold:</span>
+                  <span className="font-medium">
+                    {holderAnalysis.creatorHoldings.deployerPercentage.toFixed(2)}% /{" "}
+                    {holderAnalysis.creatorHoldings.owner ? `${holderAnalysis.creatorHoldings.ownerPercentage.toFixed(2)}%` : "-"}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Launch Wallets Hold:</span>
+                  <span className="font-medium">
+                    {holderAnalysis.creatorHoldings.linkedPercentage.toFixed(2)}% (
+                    {holderAnalysis.creatorHoldings.linkedWallets.length} wallets)
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Contracts Deployed:</span>
+                  <span className="font-medium">
+                    {deployerAnalysis.contractsDeployed}
+                    {deployerAnalysis.historyTruncated && "+"} ({deployerAnalysis.otherTokens.length} other tokens)
+                  </span>
+                </div>
+              </div>
             </div>
-            <div>
-              <label className="text-sm font-medium text-gray-500">Distribution Score</label>
-              <div className="flex items-center gap-2">
-                <Progress value={holderAnalysis.distributionScore} className="flex-1" />
-                <span className="text-sm font-medium">{holderAnalysis.distributionScore.toFixed(0)}</span>
+            {deployerAnalysis.fundedBy?.label?.kind === "mixer" && (
+              <Alert className="mt-4 border-red-200 bg-red-50">
+                <AlertTriangle className="h-4 w-4 text-red-600" />
+                <AlertDescription className="text-red-800">
+                  The deployer was funded through a mixer ({deployerAnalysis.fundedBy.label.name})
+                </AlertDescription>
+              </Alert>
+            )}
+            {deployerAnalysis.priorTokens.length > 0 && (
+              <div className="mt-4 space-y-2">
+                <p className="text-sm font-medium">
+                  Previous tokens by this deployer
+                  {deployerAnalysis.fundedWallets.length > 0 && ` and ${deployerAnalysis.fundedWallets.length} wallets it funded`}
+                </p>
+                {deployerAnalysis.priorTokens.map((token) => (
+                  <div key={token.address} className="flex items-center justify-between p-2 rounded border text-xs">
+                    <div>
+                      <a
+                        href={`${result.chain.explorerUrl}/token/${token.address}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-mono hover:underline"
+                      >
+                        {token.address}
+                      </a>{" "}
+                      {token.symbol} - {new Date(token.timestamp * 1000).toLocaleDateString()}
+                      {token.deployer.toLowerCase() !== deployerAnalysis.deployer?.toLowerCase() && (
+                        <span className="text-gray-500"> (funded wallet {token.deployer.slice(0, 8)}...)</span>
+                      )}
+                      {token.reason && <p className="text-red-600">{token.reason}</p>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-gray-500">{formatNumber(token.liquidityUsd)}</span>
+                      <Badge
+                        className={
+                          token.status === "rugged"
+                            ? "bg-red-200 text-red-900"
+                            : token.status === "active"
+                              ? "bg-green-100 text-green-800"
+                              : "bg-gray-100 text-gray-800"
+                        }
+                      >
+                        {token.status}
+                      </Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Launch */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Rocket className="h-5 w-5" />
+            Launch
+          </CardTitle>
+          <CardDescription>
+            {launchAnalysis.liquidityAddedBlock !== null
+              ? `Buys in the first ${launchAnalysis.windowBlocks} blocks after liquidity was added`
+              : "Liquidity add not found"}
+          </CardDescription>
+        </CardHeader>
+        {launchAnalysis.liquidityAddedBlock !== null && (
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <label className="text-sm font-medium text-gray-500">Bought at Launch</label>
+                <p className="text-lg font-semibold">{launchAnalysis.launchPercentage.toFixed(2)}%</p>
+                <p className="text-xs text-gray-500">
+                  {new Set(launchAnalysis.buys.map((buy) => buy.buyer)).size} buyers from block{" "}
+                  {launchAnalysis.liquidityAddedBlock.toLocaleString()}
+                </p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-500">Bundled</label>
+                <p className="text-lg font-semibold">{launchAnalysis.bundledPercentage.toFixed(2)}%</p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-500">Insiders</label>
+                <p className="text-lg font-semibold">{launchAnalysis.insiderPercentage.toFixed(2)}%</p>
+                <p className="text-xs text-gray-500">deployer and wallets it funded</p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-500">Sniper Bots</label>
+                <p className="text-lg font-semibold">{launchAnalysis.sniperPercentage.toFixed(2)}%</p>
               </div>
-              <p className="text-xs text-gray-500">Higher = better distribution</p>
             </div>
-          </div>
-        </CardContent>
-      </Card> */}
+            {launchAnalysis.buys.length > 0 && (
+              <div className="mt-4 space-y-2">
+                <p className="text-sm font-medium">Launch buys</p>
+                {[...launchAnalysis.buys]
+                  .sort((a, b) => b.percentage - a.percentage)
+                  .slice(0, 20)
+                  .map((buy) => (
+                    <div
+                      key={`${buy.transactionHash}:${buy.buyer}`}
+                      className="flex items-center justify-between p-2 rounded border text-xs"
+                    >
+                      <div>
+                        <a
+                          href={`${result.chain.explorerUrl}/tx/${buy.transactionHash}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-mono hover:underline"
+                        >
+                          {buy.buyer}
+                        </a>{" "}
+                        <span className="text-gray-500">
+                          {buy.blockOffset === 0 ? "same block" : `+${buy.blockOffset} blocks`}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{buy.percentage.toFixed(2)}%</span>
+                        {buy.insider && <Badge className="bg-red-200 text-red-900">insider</Badge>}
+                        {buy.bundled && <Badge className="bg-orange-100 text-orange-800">bundled</Badge>}
+                        {buy.sniperBot && <Badge className="bg-yellow-100 text-yellow-800">{buy.sniperBot}</Badge>}
+                      </div>
+                    </div>
+                  ))}
+              </div>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Holder Analysis */}
+      <HolderDistribution
+        holderAnalysis={holderAnalysis}
+        tokenAddress={tokenData.contractAddress}
+        decimals={tokenData.decimals}
+        explorerUrl={result.chain.explorerUrl}
+      />
 
       {/* Risk Factors */}
       {riskFactors.length > 0 && (
@@ -0,0 +1,499 @@
+import { useMemo, useState } from "react"
+import { Area, Bar, BarChart, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import {
+  Drawer,
+  DrawerClose,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+} from "@/components/ui/drawer"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ArrowUpDown, Users } from "lucide-react"
+import type { ComprehensiveAnalysisProps } from "./ComprehensiveAnalysis"
+
+type HolderAnalysis = ComprehensiveAnalysisProps["result"]["holderAnalysis"]
+type Holder = HolderAnalysis["holders"][number]
+type ClusterLink = HolderAnalysis["clusters"]["clusters"][number]["links"][number]
+
+interface HolderDistributionProps {
+  holderAnalysis: HolderAnalysis
+  tokenAddress: string
+  decimals: number
+  explorerUrl: string
+}
+
+type SortKey = "rank" | "address" | "label" | "percentage"
+
+// Labels that hold tokens for others or out of circulation, mirroring isInfrastructure in lib/analysis/holders
+const INFRASTRUCTURE: Holder["label"][] = ["pool", "burn", "locker", "vesting", "exchange", "bridge"]
+
+const TOP_BUCKETS = [1, 5, 10, 25, 50, 100]
+
+const lorenzConfig = {
+  supply: { label: "Holders", color: "hsl(var(--chart-1))" },
+  equality: { label: "Perfect equality", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig
+
+const concentrationConfig = {
+  raw: { label: "Of total supply", color: "hsl(var(--chart-1))" },
+  float: { label: "Of the float", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig
+
+const sameAddress = (a: string | null, b: string) => !!a && a.toLowerCase() === b.toLowerCase()
+
+const getLabelColor = (label: Holder["label"]) => {
+  switch (label) {
+    case "pool":
+    case "locker":
+    case "burn":
+      return "bg-green-100 text-green-800"
+    case "vesting":
+    case "multisig":
+      return "bg-blue-100 text-blue-800"
+    case "exchange":
+    case "bridge":
+      return "bg-purple-100 text-purple-800"
+    case "contract":
+      return "bg-yellow-100 text-yellow-800"
+    default:
+      return "bg-gray-100 text-gray-800"
+  }
+}
+
+export default function HolderDistribution({ holderAnalysis, tokenAddress, decimals, explorerUrl }: HolderDistributionProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("rank")
+  const [descending, setDescending] = useState(false)
+  const [selected, setSelected] = useState<Holder | null>(null)
+
+  const { creatorHoldings, clusters, balanceCheck } = holderAnalysis
+
+  // Largest first, so the index is the holder's rank
+  const ranked = useMemo(
+    () => [...holderAnalysis.holders].sort((a, b) => b.balance - a.balance),
+    [holderAnalysis.holders],
+  )
+
+  // Cumulative share of the listed holders' balances against cumulative share of those holders,
+  // smallest first. A straight diagonal is a perfectly even distribution.
+  const lorenz = useMemo(() => {
+    const total = ranked.reduce((sum, holder) => sum + holder.balance, 0)
+    if (total === 0) return []
+    let cumulative = 0
+    const points = [...ranked].reverse().map((holder, index) => {
+      cumulative += holder.balance
+      const share = ((index + 1) / ranked.length) * 100
+      return { holders: share, supply: (cumulative / total) * 100, equality: share }
+    })
+    return [{ holders: 0, supply: 0, equality: 0 }, ...points]
+  }, [ranked])
+
+  // Share held by the top N holders, raw and with infrastructure taken out of both sides
+  const concentration = useMemo(() => {
+    const float = ranked.filter((holder) => !INFRASTRUCTURE.includes(holder.label))
+    const floatSupply = 100 - holderAnalysis.infrastructurePercentage
+    return TOP_BUCKETS.filter((size, index) => index === 0 || TOP_BUCKETS[index - 1] < ranked.length).map((size) => {
+      const floatShare = float.slice(0, size).reduce((sum, holder) => sum + holder.percentage, 0)
+      return {
+        bucket: `Top ${size}`,
+        raw: ranked.slice(0, size).reduce((sum, holder) => sum + holder.percentage, 0),
+        float: floatSupply > 0 ? Math.min((floatShare / floatSupply) * 100, 100) : 0,
+      }
+    })
+  }, [ranked, holderAnalysis.infrastructurePercentage])
+
+  const sorted = useMemo(() => {
+    const rows = ranked.map((holder, index) => ({ holder, rank: index + 1 }))
+    const compare = (a: (typeof rows)[number], b: (typeof rows)[number]) => {
+      switch (sortKey) {
+        case "address":
+          return a.holder.address.localeCompare(b.holder.address)
+        case "label":
+          return a.holder.label.localeCompare(b.holder.label) || a.rank - b.rank
+        case "percentage":
+          return a.holder.percentage - b.holder.percentage
+        default:
+          return a.rank - b.rank
+      }
+    }
+    rows.sort(compare)
+    return descending ? rows.reverse() : rows
+  }, [ranked, sortKey, descending])
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending(!descending)
+    } else {
+      setSortKey(key)
+      // Percentages read best largest first, everything else ascending
+      setDescending(key === "percentage")
+    }
+  }
+
+  const formatBalance = (balance: number) => {
+    const num = balance / Math.pow(10, decimals)
+    if (num >= 1e12) return `${(num / 1e12).toFixed(2)}T`
+    if (num >= 1e9) return `${(num / 1e9).toFixed(2)}B`
+    if (num >= 1e6) return `${(num / 1e6).toFixed(2)}M`
+    if (num >= 1e3) return `${(num / 1e3).toFixed(2)}K`
+    return num.toFixed(2)
+  }
+
+  const describeRoles = (address: string) =>
+    [
+      sameAddress(creatorHoldings.deployer, address) && "Deployer",
+      sameAddress(creatorHoldings.owner, address) && "Owner",
+      creatorHoldings.linkedWallets.some((wallet) => sameAddress(wallet.address, address)) && "Launch wallet",
+    ].filter((role): role is string => !!role)
+
+  // 1-based number of the cluster the holder belongs to, 0 when it is not linked to another holder
+  const clusterOf = (address: string) =>
+    clusters.clusters.findIndex((cluster) => cluster.members.some((member) => sameAddress(member, address))) + 1
+
+  const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+  const describeLink = (link: ClusterLink) => {
+    switch (link.kind) {
+      case "fundingTransaction":
+        return (
+          <>
+            funded in the same transaction{" "}
+            <a href={`${explorerUrl}/tx/${link.value}`} target="_blank" rel="noopener noreferrer" className="font-mono hover:underline">
+              {link.value.slice(0, 10)}...
+            </a>
+          </>
+        )
+      case "funder":
+        return (
+          <>
+            funded by{" "}
+            <a href={`${explorerUrl}/address/${link.value}`} target="_blank" rel="noopener noreferrer" className="font-mono hover:underline">
+              {shortAddress(link.value)}
+            </a>
+          </>
+        )
+      default:
+        return (
+          <>
+            first received tokens from{" "}
+            <a href={`${explorerUrl}/address/${link.value}`} target="_blank" rel="noopener noreferrer" className="font-mono hover:underline">
+              {shortAddress(link.value)}
+            </a>{" "}
+            in block {link.blockNumber?.toLocaleString()}
+          </>
+        )
+    }
+  }
+
+  const sortableHead = (key: SortKey, title: string, className?: string) => (
+    <TableHead className={className}>
+      <button type="button" className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => toggleSort(key)}>
+        {title}
+        <ArrowUpDown className={`h-3 w-3 ${sortKey === key ? "text-foreground" : "opacity-50"}`} />
+      </button>
+    </TableHead>
+  )
+
+  const selectedRank = selected ? ranked.indexOf(selected) + 1 : 0
+  const selectedRoles = selected ? describeRoles(selected.address) : []
+  const selectedCluster = selected ? clusterOf(selected.address) : 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Holder Distribution
+        </CardTitle>
+        {ranked.length > 0 && (
+          <CardDescription>
+            Top {ranked.length} holders, percentages of{" "}
+            {holderAnalysis.provenance.percentages === "totalSupply" ? "the on-chain total supply" : "their combined balance"}
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div>
+            <label className="text-sm font-medium text-gray-500">Total Holders</label>
+            <p className="text-lg font-semibold">
+              {holderAnalysis.totalHolders.toLocaleString()}
+              {!holderAnalysis.totalHoldersExact && "+"}
+            </p>
+            <p className="text-xs text-gray-500">via {holderAnalysis.provenance.totalHolders}</p>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-500">Top 10 Holders</label>
+            <p className="text-lg font-semibold">{holderAnalysis.adjustedTop10HoldersPercentage.toFixed(1)}%</p>
+            <p className="text-xs text-gray-500">
+              of the float ({holderAnalysis.top10HoldersPercentage.toFixed(1)}% raw,{" "}
+              {holderAnalysis.infrastructurePercentage.toFixed(1)}% held by infrastructure)
+            </p>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-500">Creator Holdings</label>
+            <p className="text-lg font-semibold">{holderAnalysis.creatorPercentage.toFixed(1)}%</p>
+            <p className="text-xs text-gray-500">
+              of total supply, +{creatorHoldings.linkedPercentage.toFixed(1)}% in launch wallets
+            </p>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-500">Distribution Score</label>
+            <div className="flex items-center gap-2">
+              <Progress value={holderAnalysis.adjustedDistributionScore} className="flex-1" />
+              <span className="text-sm font-medium">{holderAnalysis.adjustedDistributionScore.toFixed(0)}</span>
+            </div>
+            <p className="text-xs text-gray-500">Higher = better distribution</p>
+          </div>
+        </div>
+
+        {balanceCheck.sumPercentage !== null && (
+          <div
+            className={`mt-4 p-3 rounded-lg border text-sm ${balanceCheck.inconsistent ? "border-red-200 bg-red-50 text-red-800" : "text-gray-600"}`}
+          >
+            {balanceCheck.inconsistent
+              ? `Balances do not add up: ${balanceCheck.reason}`
+              : `On-chain balances of ${balanceCheck.complete ? "all" : "the top"} ${balanceCheck.holdersChecked} holders add up to ${balanceCheck.sumPercentage}% of totalSupply`}
+          </div>
+        )}
+
+        {ranked.length > 0 && (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
+              <div>
+                <p className="text-sm font-medium mb-2">Lorenz Curve</p>
+                <ChartContainer config={lorenzConfig} className="aspect-auto h-[250px] w-full">
+                  <ComposedChart data={lorenz} margin={{ left: 0, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      type="number"
+                      dataKey="holders"
+                      domain={[0, 100]}
+                      tickFormatter={(value) => `${value}%`}
+                      tickLine={false}
+                      axisLine={false}
+                    />
+                    <YAxis domain={[0, 100]} tickFormatter={(value) => `${value}%`} tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          labelFormatter={(_, payload) => `Smallest ${Number(payload[0]?.payload.holders).toFixed(0)}% of holders`}
+                          formatter={(value, name) => `${lorenzConfig[name as keyof typeof lorenzConfig].label}: ${Number(value).toFixed(1)}% of supply`}
+                        />
+                      }
+                    />
+                    <Area
+                      dataKey="supply"
+                      type="linear"
+                      fill="var(--color-supply)"
+                      fillOpacity={0.3}
+                      stroke="var(--color-supply)"
+                    />
+                    <Line dataKey="equality" type="linear" stroke="var(--color-equality)" strokeDasharray="4 4" dot={false} />
+                  </ComposedChart>
+                </ChartContainer>
+                <p className="text-xs text-gray-500">
+                  The further the curve bows below the diagonal, the more the supply sits with a few holders
+                </p>
+              </div>
+              <div>
+                <p className="text-sm font-medium mb-2">Concentration</p>
+                <ChartContainer config={concentrationConfig} className="aspect-auto h-[250px] w-full">
+                  <BarChart data={concentration} margin={{ left: 0, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="bucket" tickLine={false} axisLine={false} />
+                    <YAxis domain={[0, 100]} tickFormatter={(value) => `${value}%`} tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip
+                      content={<ChartTooltipContent formatter={(value, name) => `${concentrationConfig[name as keyof typeof concentrationConfig].label}: ${Number(value).toFixed(1)}%`} />}
+                    />
+                    <Bar dataKey="raw" fill="var(--color-raw)" radius={4} />
+                    <Bar dataKey="float" fill="var(--color-float)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+                <p className="text-xs text-gray-500">
+                  Share held by the largest holders, of the total supply and of the float left once pools, burns,
+                  lockers, vesting, exchanges and bridges are taken out
+                </p>
+              </div>
+            </div>
+
+            {clusters.holdersChecked > 0 && (
+              <div className="mt-6 space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium">Linked Holders</p>
+                  <span className="text-xs text-gray-500">
+                    {clusters.holdersChecked} largest float holders checked for shared funding
+                  </span>
+                </div>
+                {clusters.largestEffectiveHolder && (
+                  <p className="text-sm">
+                    Largest effective holder:{" "}
+                    <span className="font-semibold">
+                      {clusters.largestEffectiveHolder.floatPercentage.toFixed(1)}% of the float
+                    </span>{" "}
+                    ({clusters.largestEffectiveHolder.percentage.toFixed(2)}% of supply
+                    {clusters.largestEffectiveHolder.members.length > 1 &&
+                      `, ${clusters.largestEffectiveHolder.members.length} linked wallets`}
+                    )
+                  </p>
+                )}
+                {clusters.clusters.length === 0 && (
+                  <p className="text-xs text-gray-500">No top holders share a funding source</p>
+                )}
+                {clusters.clusters.map((cluster, index) => (
+                  <div key={cluster.members.join()} className="p-2 rounded border text-xs space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">
+                        Cluster {index + 1}: {cluster.members.length} wallets
+                      </span>
+                      <span>
+                        {cluster.percentage.toFixed(2)}% of supply, {cluster.floatPercentage.toFixed(1)}% of the float
+                      </span>
+                    </div>
+                    {cluster.links.map((link) => (
+                      <p key={`${link.kind}:${link.value}:${link.blockNumber}`} className="text-gray-600">
+                        {link.members.length} wallets {describeLink(link)}
+                      </p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="mt-6">
+              <p className="text-sm font-medium mb-2">Top Holders</p>
+              <div className="max-h-[400px] overflow-y-auto rounded border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {sortableHead("rank", "#", "w-12")}
+                      {sortableHead("address", "Address")}
+                      {sortableHead("label", "Label")}
+                      <TableHead className="text-right">Balance</TableHead>
+                      {sortableHead("percentage", "Share", "text-right")}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sorted.map(({ holder, rank }) => (
+                      <TableRow key={holder.address}>
+                        <TableCell className="text-gray-500">{rank}</TableCell>
+                        <TableCell>
+                          <button
+                            type="button"
+                            className="font-mono text-xs hover:underline"
+                            onClick={() => setSelected(holder)}
+                          >
+                            {holder.address.slice(0, 10)}...{holder.address.slice(-8)}
+                          </button>
+                          {describeRoles(holder.address).map((role) => (
+                            <Badge key={role} className="ml-2 bg-red-100 text-red-800">
+                              {role}
+                            </Badge>
+                          ))}
+                          {clusterOf(holder.address) > 0 && (
+                            <Badge className="ml-2 bg-orange-100 text-orange-800">Cluster {clusterOf(holder.address)}</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={getLabelColor(holder.label)}>{holder.label}</Badge>
+                          {holder.name && <span className="ml-2 text-xs text-gray-500">{holder.name}</span>}
+                        </TableCell>
+                        <TableCell className="text-right">{formatBalance(holder.balance)}</TableCell>
+                        <TableCell className="text-right font-medium">{holder.percentage.toFixed(2)}%</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <Drawer open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DrawerContent>
+          {selected && (
+            <div className="mx-auto w-full max-w-lg">
+              <DrawerHeader>
+                <DrawerTitle>Holder #{selectedRank}</DrawerTitle>
+                <DrawerDescription className="font-mono break-all">{selected.address}</DrawerDescription>
+              </DrawerHeader>
+              <div className="px-4 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Label:</span>
+                  <span className="font-medium">
+                    <Badge className={getLabelColor(selected.label)}>{selected.label}</Badge>
+                    {selected.name && ` ${selected.name}`}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Balance:</span>
+                  <span className="font-medium">{formatBalance(selected.balance)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Share of Supply:</span>
+                  <span className="font-medium">{selected.percentage.toFixed(4)}%</span>
+                </div>
+                {!INFRASTRUCTURE.includes(selected.label) && holderAnalysis.infrastructurePercentage < 100 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Share of Float:</span>
+                    <span className="font-medium">
+                      {((selected.percentage / (100 - holderAnalysis.infrastructurePercentage)) * 100).toFixed(4)}%
+                    </span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Role:</span>
+                  <span className="font-medium">{selectedRoles.length > 0 ? selectedRoles.join(", ") : "-"}</span>
+                </div>
+                {selectedCluster > 0 && (
+                  <div className="space-y-1">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Cluster:</span>
+                      <span className="font-medium">
+                        #{selectedCluster}, {clusters.clusters[selectedCluster - 1].members.length} wallets holding{" "}
+                        {clusters.clusters[selectedCluster - 1].floatPercentage.toFixed(1)}% of the float
+                      </span>
+                    </div>
+                    {clusters.clusters[selectedCluster - 1].links
+                      .filter((link) => link.members.some((member) => sameAddress(member, selected.address)))
+                      .map((link) => (
+                        <p key={`${link.kind}:${link.value}:${link.blockNumber}`} className="text-xs text-gray-600">
+                          With {link.members.length - 1} other holders: {describeLink(link)}
+                        </p>
+                      ))}
+                  </div>
+                )}
+              </div>
+              <DrawerFooter>
+                <Button asChild variant="outline">
+                  <a href={`${explorerUrl}/address/${selected.address}`} target="_blank" rel="noopener noreferrer">
+                    View address on explorer
+                  </a>
+                </Button>
+                <Button asChild variant="outline">
+                  <a
+                    href={`${explorerUrl}/token/${tokenAddress}?a=${selected.address}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    View token transfers
+                  </a>
+                </Button>
+                <DrawerClose asChild>
+                  <Button variant="ghost">Close</Button>
+                </DrawerClose>
+              </DrawerFooter>
+            </div>
+          )}
+        </DrawerContent>
+      </Drawer>
+    </Card>
+  )
+}
@@ -11,6 +11,14 @@ import {
   CardTitle,
 } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import {
   Loader2,
   Shield,
@@ -20,10 +28,12 @@ import {
   Info,
   Zap,
 } from "lucide-react"
+import { CHAINS, DEFAULT_CHAIN_ID } from "@/lib/chains"
 import ComprehensiveAnalysis from "./components/ComprehensiveAnalysis"
 
 export default function Home() {
   const [contractAddress, setContractAddress] = useState("")
+  const [chainId, setChainId] = useState(String(DEFAULT_CHAIN_ID))
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [result, setResult] = useState<any>(null)
   const [error, setError] = useState("")
@@ -38,7 +48,7 @@ export default function Home() {
 
     if (!/^0x[a-fA-F0-9]{40}$/.test(contractAddress.trim())) {
       setError(
-        "Please enter a valid Ethereum contract address (0x followed by 40 hexadecimal characters)"
+        "Please enter a valid contract address (0x followed by 40 hexadecimal characters)"
       )
       return
     }
@@ -51,7 +61,10 @@ export default function Home() {
       const response = await fetch("/api/analyze-token", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ contractAddress: contractAddress.trim() }),
+        body: JSON.stringify({
+          contractAddress: contractAddress.trim(),
+          chainId: Number(chainId),
+        }),
       })
 
       const data = await response.json()
@@ -71,7 +84,7 @@ export default function Home() {
 
       if (errorMessage.includes("404")) {
         errorMessage +=
-          "\n\nTip: Make sure the address is a valid ERC-20 token contract on Ethereum mainnet."
+          "\n\nTip: Make sure the address is a valid ERC-20 token contract on the selected chain."
       } else if (
         errorMessage.includes("401") ||
         errorMessage.includes("403")
@@ -135,10 +148,10 @@ export default function Home() {
             🔍 Token Risk Analyzer
           </h1>
           <p className="text-xl text-gray-600 mb-2">
-            Professional-grade security analysis for Ethereum ERC-20 tokens
+            Professional-grade security analysis for ERC-20 tokens on Ethereum, BSC, Polygon, Arbitrum, Base and Optimism
           </p>
           <p className="text-sm text-gray-500">
-            Powered by Tatum, CoinGecko, and Etherscan APIs
+            Powered by JSON-RPC nodes, CoinGecko, and Etherscan APIs
           </p>
         </div>
 
@@ -161,19 +174,31 @@ export default function Home() {
               Token Analysis Dashboard
             </CardTitle>
             <CardDescription>
-              Enter an ERC-20 contract address for comprehensive risk assessment including security and market data and
-              analysis for Ethereum Tokens
+              Select a chain and enter an ERC-20 contract address for comprehensive risk assessment including
+              security and market data analysis
             </CardDescription>
           </CardHeader>
           <CardContent className="pt-6">
             <form onSubmit={handleAnalyze} className="space-y-6">
-              <div>
+              <div className="flex gap-3">
+                <Select value={chainId} onValueChange={setChainId}>
+                  <SelectTrigger className="w-48 h-12">
+                    <SelectValue placeholder="Chain" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CHAINS.map((chain) => (
+                      <SelectItem key={chain.id} value={String(chain.id)}>
+                        {chain.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Input
                   type="text"
-                  placeholder="0x... (Ethereum contract address)"
+                  placeholder="0x... (token contract address)"
                   value={contractAddress}
                   onChange={(e) => setContractAddress(e.target.value)}
-                  className="text-sm font-mono h-12 text-lg"
+                  className="flex-1 text-sm font-mono h-12 text-lg"
                 />
               </div>
 
@@ -212,6 +237,9 @@ export default function Home() {
                   <CardTitle className="flex items-center gap-2">
                     <Shield className="h-6 w-6" />
                     Analysis Results for {result.tokenData.symbol}
+                    <Badge variant="outline" className="ml-2">
+                      {result.chain.name}
+                    </Badge>
                   </CardTitle>
                   <div
                     className={`flex items-center gap-2 px-4 py-2 rounded-full border-2 ${getRiskColor(
@@ -0,0 +1,87 @@
+import { parseAbi } from "viem"
+
+// Minimal ABIs for the third-party contracts the analyzers read and the simulator trades against
+
+export const uniswapV2FactoryAbi = parseAbi(["function getPair(address tokenA, address tokenB) view returns (address)"])
+
+export const uniswapV2PairAbi = parseAbi([
+  "function token0() view returns (address)",
+  "function token1() view returns (address)",
+  "function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
+])
+
+export const uniswapV2RouterAbi = parseAbi([
+  "function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)",
+  "function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable",
+  "function swapExactTokensForETHSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+])
+
+export const uniswapV3FactoryAbi = parseAbi([
+  "function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)",
+])
+
+// Liquidity lockers, see lib/registry/lockers.ts
+
+export const unicryptLockerAbi = parseAbi([
+  "function getNumLocksForToken(address lpToken) view returns (uint256)",
+  "function tokenLocks(address lpToken, uint256 index) view returns (uint256 lockDate, uint256 amount, uint256 initialAmount, uint256 unlockDate, uint256 lockID, address owner)",
+])
+
+export const teamFinanceLockerAbi = parseAbi([
+  "function getDepositsByTokenAddress(address token) view returns (uint256[])",
+  "function lockedToken(uint256 id) view returns (address tokenAddress, address withdrawalAddress, uint256 tokenAmount, uint256 unlockTime, bool withdrawn)",
+])
+
+export const pinkLockAbi = parseAbi([
+  "struct Lock { uint256 id; address token; address owner; uint256 amount; uint256 lockDate; uint256 tgeDate; uint256 tgeBps; uint256 cycle; uint256 cycleBps; uint256 unlockedAmount; string description; }",
+  "function totalLockCountForToken(address token) view returns (uint256)",
+  "function getLocksForToken(address token, uint256 start, uint256 end) view returns (Lock[])",
+])
+
+// Ownership and access control
+
+export const ownableAbi = parseAbi([
+  "function owner() view returns (address)",
+  "function getOwner() view returns (address)",
+  "function admin() view returns (address)",
+  "function pendingOwner() view returns (address)",
+])
+
+export const accessControlEnumerableAbi = parseAbi([
+  "function getRoleMemberCount(bytes32 role) view returns (uint256)",
+  "function getRoleMember(bytes32 role, uint256 index) view returns (address)",
+])
+
+export const safeAbi = parseAbi([
+  "function getThreshold() view returns (uint256)",
+  "function getOwners() view returns (address[])",
+])
+
+// OpenZeppelin TimelockController uses getMinDelay(), Compound's Timelock uses delay()
+export const timelockAbi = parseAbi([
+  "function getMinDelay() view returns (uint256)",
+  "function delay() view returns (uint256)",
+])
+
+// Proxies
+
+export const beaconAbi = parseAbi(["function implementation() view returns (address)"])
+
+export const proxiableAbi = parseAbi(["function proxiableUUID() view returns (bytes32)"])
+
+// Vesting
+
+// OpenZeppelin VestingWallet and most token vesting contracts expose a schedule
+export const vestingAbi = parseAbi([
+  "function start() view returns (uint256)",
+  "function duration() view returns (uint256)",
+])
+
+// EIP-2535 diamond loupe
+
+export const diamondLoupeAbi = parseAbi([
+  "struct Facet { address facetAddress; bytes4[] functionSelectors; }",
+  "function facets() view returns (Facet[])",
+  "function facetAddresses() view returns (address[])",
+  "function facetFunctionSelectors(address facet) view returns (bytes4[])",
+])
@@ -0,0 +1,74 @@
+import { erc20Abi } from "viem"
+import type { ContractReader, TokenHolder } from "@/lib/providers"
+
+export interface BalanceCheck {
+  // Top holders whose balanceOf() could be read
+  holdersChecked: number
+  // Their on-chain balances summed, as a share of totalSupply; null when totalSupply is unknown
+  sumPercentage: number | null
+  // Whether every holder was checked, so the balances should add up to totalSupply
+  complete: boolean
+  // Balances add up to more than the supply, or to noticeably less when every holder was checked
+  inconsistent: boolean
+  reason: string | null
+}
+
+// Difference tolerated between the sum and totalSupply, for dust and reflection rounding
+const TOLERANCE_PERCENTAGE = 1
+
+// Reads balanceOf() for the top holders and adds the balances up. A token that keeps honest books
+// never has holders owning more than totalSupply; when the list covers every holder the balances
+// should add up to it. Balances credited outside transfers or fabricated by balanceOf() break this.
+export async function checkHolderBalances(
+  contractReader: ContractReader,
+  token: string,
+  holders: TokenHolder[],
+  totalSupply: bigint | null,
+  // Whether the holder list is every holder there is
+  listIsComplete: boolean,
+): Promise<BalanceCheck> {
+  const balances = (await contractReader.readContracts(
+    holders.map((holder) => ({
+      address: token,
+      abi: erc20Abi,
+      functionName: "balanceOf",
+      args: [holder.address],
+    })),
+  )) as Array<bigint | null>
+  const read = balances.filter((balance): balance is bigint => balance !== null)
+  const complete = listIsComplete && read.length === holders.length
+
+  if (!totalSupply || totalSupply === BigInt(0) || read.length === 0) {
+    return { ...getDefaultBalanceCheck(), holdersChecked: read.length, complete }
+  }
+
+  const sum = read.reduce((total, balance) => total + balance, BigInt(0))
+  // Two decimals of a percent, computed in bigint
+  const sumPercentage = Number((sum * BigInt(10000)) / totalSupply) / 100
+  const who = complete ? `All ${read.length} holders` : `The top ${read.length} holders`
+
+  let reason: string | null = null
+  if (sumPercentage > 100 + TOLERANCE_PERCENTAGE) {
+    reason = `${who} hold ${sumPercentage}% of totalSupply`
+  } else if (complete && sumPercentage < 100 - TOLERANCE_PERCENTAGE) {
+    reason = `${who} hold only ${sumPercentage}% of totalSupply`
+  }
+
+  return {
+    holdersChecked: read.length,
+    sumPercentage,
+    complete,
+    inconsistent: reason !== null,
+    reason,
+  }
+}
+
+export function getDefaultBalanceCheck(): BalanceCheck {
+  return {
+    holdersChecked: 0,
+    sumPercentage: null,
+    complete: false,
+    inconsistent: false,
+    reason: null,
+  }
+}
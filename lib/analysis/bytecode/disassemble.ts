@@ -0,0 +1,61 @@
+export interface Instruction {
+  offset: number
+  opcode: number
+  // Immediate data of PUSH1..PUSH32, as lowercase hex without 0x
+  push?: string
+}
+
+export const OPCODES = {
+  EQ: 0x14,
+  PUSH1: 0x60,
+  PUSH4: 0x63,
+  PUSH32: 0x7f,
+  DUP1: 0x80,
+  DUP2: 0x81,
+  DELEGATECALL: 0xf4,
+  SELFDESTRUCT: 0xff,
+} as const
+
+// solc appends CBOR-encoded metadata whose length sits in the last two bytes. Its bytes are not
+// code and would otherwise show up as bogus opcodes such as SELFDESTRUCT.
+function stripMetadata(hex: string): string {
+  const length = Number.parseInt(hex.slice(-4), 16)
+  const start = hex.length - 4 - length * 2
+  if (start > 0 && /^a[1-9]/.test(hex.slice(start, start + 2))) return hex.slice(0, start)
+  return hex
+}
+
+export function disassemble(code: string): Instruction[] {
+  const hex = stripMetadata(code.startsWith("0x") ? code.slice(2) : code)
+  const instructions: Instruction[] = []
+
+  for (let offset = 0; offset < hex.length / 2; offset++) {
+    const opcode = Number.parseInt(hex.slice(offset * 2, offset * 2 + 2), 16)
+    if (opcode >= OPCODES.PUSH1 && opcode <= OPCODES.PUSH32) {
+      const size = opcode - OPCODES.PUSH1 + 1
+      instructions.push({ offset, opcode, push: hex.slice(offset * 2 + 2, offset * 2 + 2 + size * 2).toLowerCase() })
+      offset += size
+    } else {
+      instructions.push({ offset, opcode })
+    }
+  }
+
+  return instructions
+}
+
+// Function selectors compared against calldata in the dispatcher. solc emits
+// `PUSH4 <selector> EQ` (legacy) or `PUSH4 <selector> DUP2 EQ` (via-IR) for every external function.
+export function extractSelectors(instructions: Instruction[]): string[] {
+  const selectors = new Set<string>()
+
+  instructions.forEach((instruction, index) => {
+    if (instruction.opcode !== OPCODES.PUSH4 || instruction.push?.length !== 8) return
+    const next = instructions[index + 1]?.opcode
+    const afterNext = instructions[index + 2]?.opcode
+    if (next === OPCODES.EQ || (next === OPCODES.DUP2 && afterNext === OPCODES.EQ)) {
+      selectors.add(`0x${instruction.push}`)
+    }
+  })
+
+  return [...selectors]
+}
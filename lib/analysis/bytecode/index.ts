@@ -0,0 +1,103 @@
+import { getAddress } from "viem"
+import { categorize } from "@/lib/analysis/privileges"
+import type { Capability, PrivilegedFunction, SecurityFinding } from "@/lib/analysis/types"
+import { disassemble, extractSelectors, OPCODES } from "./disassemble"
+import { SIGNATURE_DATABASE } from "./signatures"
+
+export interface BytecodeAnalysis {
+  size: number
+  selectors: string[]
+  hasDelegatecall: boolean
+  hasSelfdestruct: boolean
+  // Target of an EIP-1167 minimal proxy (clone), whose own code is only a forwarder
+  minimalProxyImplementation: string | null
+  hasMintFunction: boolean
+  hasPauseFunction: boolean
+  hasBlacklistFunction: boolean
+  hasProxyContract: boolean
+  findings: SecurityFinding[]
+  // Functions from the signature database, which are owner-only in the contracts they come from
+  privileges: PrivilegedFunction[]
+}
+
+const MINIMAL_PROXY_PATTERN = /^0x363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3$/i
+
+const CAPABILITY_DESCRIPTIONS: Record<Capability, string> = {
+  mint: "can increase the token supply",
+  pause: "can pause token transfers",
+  blacklist: "can block addresses from transferring",
+  proxy: "can replace the contract logic",
+  fee: "can change transfer fees",
+  tradingRestriction: "can restrict trading",
+  balanceManipulation: "can change balances outside transfers",
+}
+
+export function getMinimalProxyImplementation(code: string): string | null {
+  const match = MINIMAL_PROXY_PATTERN.exec(code)
+  return match ? getAddress(`0x${match[1]}`) : null
+}
+
+// Recovers capabilities of an unverified contract from its runtime bytecode: dispatcher selectors
+// matched against the local signature database, plus DELEGATECALL and SELFDESTRUCT opcodes.
+export function analyzeBytecode(code: string): BytecodeAnalysis {
+  const instructions = disassemble(code)
+  const selectors = extractSelectors(instructions)
+  const opcodes = new Set(instructions.map((instruction) => instruction.opcode))
+  const minimalProxyImplementation = getMinimalProxyImplementation(code)
+  const hasDelegatecall = opcodes.has(OPCODES.DELEGATECALL)
+
+  const findings: SecurityFinding[] = selectors.flatMap((selector) => {
+    const known = SIGNATURE_DATABASE.get(selector)
+    if (!known) return []
+    return [
+      {
+        capability: known.capability,
+        contract: "",
+        function: known.signature,
+        modifiers: [],
+        guarded: null,
+        location: null,
+        description: `${known.signature.split("(")[0]}() ${CAPABILITY_DESCRIPTIONS[known.capability]}`,
+        confidence: "medium" as const,
+      },
+    ]
+  })
+
+  if (hasDelegatecall && !minimalProxyImplementation) {
+    findings.push({
+      capability: "proxy",
+      contract: "",
+      function: "DELEGATECALL",
+      modifiers: [],
+      guarded: null,
+      location: null,
+      description: "Bytecode uses DELEGATECALL, so calls may run another contract's logic",
+      confidence: "medium",
+    })
+  }
+
+  const has = (capability: Capability) => findings.some((finding) => finding.capability === capability)
+
+  return {
+    size: (code.length - 2) / 2,
+    selectors,
+    hasDelegatecall,
+    hasSelfdestruct: opcodes.has(OPCODES.SELFDESTRUCT),
+    minimalProxyImplementation,
+    hasMintFunction: has("mint"),
+    hasPauseFunction: has("pause"),
+    hasBlacklistFunction: has("blacklist"),
+    hasProxyContract: has("proxy"),
+    findings,
+    privileges: findings
+      .filter((finding) => finding.function.includes("("))
+      .map((finding) => ({
+        contract: "",
+        function: finding.function,
+        guards: [],
+        category: categorize([finding.capability], false),
+        location: null,
+        confidence: "medium" as const,
+      })),
+  }
+}
@@ -0,0 +1,85 @@
+import { toFunctionSelector } from "viem"
+import type { Capability } from "@/lib/analysis/types"
+
+// Local signature database for unverified contracts. Selectors are derived from these signatures
+// at load time, so adding a signature is all it takes to recognise a new function. Only functions
+// that change state belong here: every match becomes a privileged function of the contract.
+const SIGNATURES: Record<Capability, string[]> = {
+  mint: [
+    "mint(address,uint256)",
+    "mint(uint256)",
+    "mint(address[],uint256[])",
+    "mintTo(address,uint256)",
+    "mintTokens(address,uint256)",
+    "issue(uint256)",
+    "generateTokens(address,uint256)",
+    "_mint(address,uint256)",
+  ],
+  pause: ["pause()", "unpause()", "setPaused(bool)", "setPause(bool)", "pauseTrading()", "pauseTransfers()"],
+  blacklist: [
+    "blacklist(address)",
+    "blacklistAddress(address,bool)",
+    "addToBlacklist(address)",
+    "addBlackList(address)",
+    "removeBlackList(address)",
+    "setBlacklist(address,bool)",
+    "setBlacklisted(address,bool)",
+    "setIsBlacklisted(address,bool)",
+    "manageBlacklist(address[],bool)",
+    "setBots(address[])",
+    "addBots(address[])",
+    "setBot(address,bool)",
+    "blockBots(address[])",
+    "setSniper(address,bool)",
+    "freeze(address)",
+    "freezeAccount(address,bool)",
+    "banAddress(address)",
+  ],
+  proxy: ["upgradeTo(address)", "upgradeToAndCall(address,bytes)", "changeAdmin(address)"],
+  fee: [
+    "setFee(uint256)",
+    "setFee(uint256,uint256)",
+    "setFees(uint256,uint256)",
+    "updateFees(uint256,uint256)",
+    "setTaxes(uint256,uint256)",
+    "setTaxFeePercent(uint256)",
+    "setLiquidityFeePercent(uint256)",
+    "setTaxFee(uint256)",
+    "setBuyFee(uint256)",
+    "setSellFee(uint256)",
+    "setBuyTax(uint256)",
+    "setSellTax(uint256)",
+    "updateBuyFees(uint256,uint256,uint256)",
+    "updateSellFees(uint256,uint256,uint256)",
+  ],
+  tradingRestriction: [
+    "setMaxTx(uint256)",
+    "setMaxTxAmount(uint256)",
+    "setMaxTxPercent(uint256)",
+    "updateMaxTxnAmount(uint256)",
+    "setMaxWallet(uint256)",
+    "setMaxWalletSize(uint256)",
+    "updateMaxWalletAmount(uint256)",
+    "setCooldownEnabled(bool)",
+    "setTradingEnabled(bool)",
+    "setTrading(bool)",
+    "enableTrading()",
+    "openTrading()",
+  ],
+  balanceManipulation: [
+    "setBalance(address,uint256)",
+    "setBalances(address[],uint256[])",
+    "updateBalance(address,uint256)",
+  ],
+}
+
+export interface KnownSignature {
+  signature: string
+  capability: Capability
+}
+
+export const SIGNATURE_DATABASE = new Map<string, KnownSignature>(
+  (Object.entries(SIGNATURES) as Array<[Capability, string[]]>).flatMap(([capability, signatures]) =>
+    signatures.map((signature) => [toFunctionSelector(signature), { signature, capability }] as const),
+  ),
+)
@@ -0,0 +1,211 @@
+import { getAddress, keccak256, pad, toBytes } from "viem"
+import type { ChainConfig } from "@/lib/chains"
+import type { Providers } from "@/lib/providers"
+import { findLabel } from "@/lib/registry/labels"
+import { isInfrastructure, type LabeledHolder } from "./holders"
+
+// fundingTransaction: funded by the same transaction (a disperse contract or batch transfer);
+// funder: received native funds from the same wallet, or from each other;
+// tokenTransfer: first received the token from the same sender in the same block, or from each other
+export type ClusterLinkKind = "fundingTransaction" | "funder" | "tokenTransfer"
+
+export interface ClusterLink {
+  kind: ClusterLinkKind
+  // Transaction hash, funding wallet or token sender
+  value: string
+  // Block of the shared token transfer, null for the other kinds
+  blockNumber: number | null
+  members: string[]
+}
+
+export interface HolderCluster {
+  members: string[]
+  // Combined share of total supply, and of the float
+  percentage: number
+  floatPercentage: number
+  links: ClusterLink[]
+}
+
+export interface ClusterAnalysis {
+  // Clusters of two or more holders, largest first
+  clusters: HolderCluster[]
+  // Float holders whose funding and first token receipt were read
+  holdersChecked: number
+  // Supply held by holders that belong to a cluster
+  clusteredPercentage: number
+  // The largest single float holder or cluster: what one party effectively controls
+  largestEffectiveHolder: { members: string[]; percentage: number; floatPercentage: number } | null
+}
+
+type Holder = LabeledHolder & { percentage: number }
+
+const TRANSFER_TOPIC = keccak256(toBytes("Transfer(address,address,uint256)"))
+
+// Each holder costs three explorer calls, so only the largest float holders are checked
+const MAX_CLUSTERED_HOLDERS = 20
+// Oldest transactions read per holder; funding comes first
+const MAX_TRANSACTIONS = 100
+
+interface HolderEvidence {
+  address: string
+  // Hash of the earliest incoming native transfer, normal or internal
+  firstFunding: string | null
+  // Senders of incoming native transfers; normal transactions are always sent by an EOA
+  funders: string[]
+  // Sender and block of the earliest incoming token transfer
+  firstReceipt: { sender: string; blockNumber: number } | null
+}
+
+async function readEvidence(
+  { accountProvider, logProvider }: Providers,
+  chain: ChainConfig,
+  token: string,
+  address: string,
+): Promise<HolderEvidence> {
+  const holder = address.toLowerCase()
+  const [transactions, internalTransactions, receipts] = await Promise.all([
+    accountProvider.getTransactions(address, MAX_TRANSACTIONS),
+    accountProvider.getInternalTransactions(address, MAX_TRANSACTIONS).catch(() => []),
+    logProvider.getLogs(token, TRANSFER_TOPIC, { topic2: pad(holder as `0x${string}`), limit: 1 }),
+  ])
+
+  const incoming = (tx: (typeof transactions)[number]) =>
+    !tx.isError && tx.to?.toLowerCase() === holder && tx.value > BigInt(0)
+  const firstFunding = [...transactions, ...internalTransactions]
+    .filter(incoming)
+    .sort((a, b) => a.blockNumber - b.blockNumber)[0]
+  // Exchanges, bridges and mixers fund unrelated wallets all the time
+  const funders = transactions
+    .filter((tx) => incoming(tx) && !findLabel(chain.id, tx.from))
+    .map((tx) => tx.from.toLowerCase())
+
+  const first = receipts[0]
+  return {
+    address,
+    firstFunding: firstFunding?.hash.toLowerCase() ?? null,
+    funders: [...new Set(funders)],
+    firstReceipt: first
+      ? { sender: getAddress(`0x${(first.topics[1] ?? "").slice(-40)}`), blockNumber: first.blockNumber }
+      : null,
+  }
+}
+
+// Groups the largest float holders that share a funding transaction, a funder, or a first token
+// transfer from the same sender in the same block. Rugs spread supply over fresh wallets funded
+// from one source, which looks like a healthy distribution until they are counted as one holder.
+export async function analyzeHolderClusters(
+  providers: Providers,
+  chain: ChainConfig,
+  token: string,
+  holders: Holder[],
+  infrastructurePercentage: number,
+): Promise<ClusterAnalysis> {
+  const float = holders
+    .filter((holder) => !isInfrastructure(holder.label))
+    .sort((a, b) => b.percentage - a.percentage)
+  const floatSupply = 100 - infrastructurePercentage
+  const ofFloat = (percentage: number) => (floatSupply > 0 ? Math.min((percentage / floatSupply) * 100, 100) : 0)
+
+  const checked = float.slice(0, MAX_CLUSTERED_HOLDERS)
+  const evidence = (
+    await Promise.all(
+      checked.map((holder) =>
+        readEvidence(providers, chain, token, holder.address).catch((error) => {
+          console.error(`Error reading funding of holder ${holder.address}:`, error)
+          return null
+        }),
+      ),
+    )
+  ).filter((entry): entry is HolderEvidence => entry !== null)
+
+  // Every shared piece of evidence, keyed so that holders with the same key are linked
+  const shared = new Map<string, Omit<ClusterLink, "members"> & { members: Set<string> }>()
+  const share = (key: string, link: Omit<ClusterLink, "members">, ...members: string[]) => {
+    const entry = shared.get(key) ?? { ...link, members: new Set<string>() }
+    members.forEach((member) => entry.members.add(member))
+    shared.set(key, entry)
+  }
+  const byAddress = new Map(evidence.map((entry) => [entry.address.toLowerCase(), entry.address]))
+
+  for (const entry of evidence) {
+    if (entry.firstFunding) {
+      share(`tx:${entry.firstFunding}`, { kind: "fundingTransaction", value: entry.firstFunding, blockNumber: null }, entry.address)
+    }
+    for (const funder of entry.funders) {
+      // A holder that funded another holder is part of the same group
+      const funderHolder = byAddress.get(funder)
+      const members = funderHolder ? [entry.address, funderHolder] : [entry.address]
+      share(`funder:${funder}`, { kind: "funder", value: funderHolder ?? getAddress(funder), blockNumber: null }, ...members)
+    }
+    if (entry.firstReceipt) {
+      // Likewise for a holder that handed its tokens on to another
+      const { sender, blockNumber } = entry.firstReceipt
+      const senderHolder = byAddress.get(sender.toLowerCase())
+      const members = senderHolder ? [entry.address, senderHolder] : [entry.address]
+      share(`transfer:${sender}:${blockNumber}`, { kind: "tokenTransfer", value: sender, blockNumber }, ...members)
+    }
+  }
+  const links: ClusterLink[] = [...shared.values()]
+    .filter((link) => link.members.size > 1)
+    .map((link) => ({ ...link, members: [...link.members] }))
+
+  // Union-find over the links
+  const parent = new Map(evidence.map((entry) => [entry.address, entry.address]))
+  const find = (address: string): string => {
+    const next = parent.get(address)!
+    if (next === address) return address
+    const root = find(next)
+    parent.set(address, root)
+    return root
+  }
+  for (const link of links) {
+    const [first, ...rest] = link.members
+    rest.forEach((member) => parent.set(find(member), find(first)))
+  }
+
+  const groups = new Map<string, Holder[]>()
+  for (const holder of checked) {
+    if (!parent.has(holder.address)) continue
+    const root = find(holder.address)
+    groups.set(root, [...(groups.get(root) ?? []), holder])
+  }
+
+  const clusters: HolderCluster[] = [...groups.values()]
+    .filter((members) => members.length > 1)
+    .map((members) => {
+      const addresses = members.map((member) => member.address)
+      const percentage = members.reduce((sum, member) => sum + member.percentage, 0)
+      return {
+        members: addresses,
+        percentage,
+        floatPercentage: ofFloat(percentage),
+        links: links.filter((link) => link.members.some((member) => addresses.includes(member))),
+      }
+    })
+    .sort((a, b) => b.percentage - a.percentage)
+
+  const clustered = new Set(clusters.flatMap((cluster) => cluster.members))
+  const largestSingle = float.find((holder) => !clustered.has(holder.address))
+  const candidates = [
+    ...clusters.map(({ members, percentage, floatPercentage }) => ({ members, percentage, floatPercentage })),
+    ...(largestSingle
+      ? [{ members: [largestSingle.address], percentage: largestSingle.percentage, floatPercentage: ofFloat(largestSingle.percentage) }]
+      : []),
+  ]
+
+  return {
+    clusters,
+    holdersChecked: evidence.length,
+    clusteredPercentage: clusters.reduce((sum, cluster) => sum + cluster.percentage, 0),
+    largestEffectiveHolder: candidates.sort((a, b) => b.percentage - a.percentage)[0] ?? null,
+  }
+}
+
+export function getDefaultClusterAnalysis(): ClusterAnalysis {
+  return {
+    clusters: [],
+    holdersChecked: 0,
+    clusteredPercentage: 0,
+    largestEffectiveHolder: null,
+  }
+}
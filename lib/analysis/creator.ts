@@ -0,0 +1,130 @@
+import { erc20Abi, getAddress, keccak256, pad, toBytes, zeroAddress } from "viem"
+import type { Providers } from "@/lib/providers"
+
+export interface LinkedWallet {
+  address: string
+  // Share of total supply it holds now
+  percentage: number
+}
+
+export interface CreatorHoldings {
+  deployer: string | null
+  owner: string | null
+  // Shares of total supply held now
+  deployerPercentage: number
+  ownerPercentage: number
+  // Deployer and owner together, counted once when they are the same address
+  directPercentage: number
+  // Wallets the deployer or owner sent tokens to within LAUNCH_WINDOW_BLOCKS of the creation block
+  linkedWallets: LinkedWallet[]
+  linkedPercentage: number
+}
+
+const TRANSFER_TOPIC = keccak256(toBytes("Transfer(address,address,uint256)"))
+
+// Blocks after creation in which direct transfers from the creator count as linking a wallet
+const LAUNCH_WINDOW_BLOCKS = 1000
+const MAX_LINKED_WALLETS = 50
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+// Externally owned recipients of the creator's Transfers during launch. Pools, lockers and other
+// contracts also receive tokens from the creator but are not wallets it controls.
+async function findLinkedWallets(
+  { contractReader, logProvider }: Providers,
+  token: string,
+  senders: string[],
+  creationBlock: number,
+): Promise<string[]> {
+  const logs = await Promise.all(
+    senders.map((sender) =>
+      logProvider.getLogs(token, TRANSFER_TOPIC, {
+        topic1: pad(sender.toLowerCase() as `0x${string}`),
+        fromBlock: creationBlock,
+        toBlock: creationBlock + LAUNCH_WINDOW_BLOCKS,
+      }),
+    ),
+  )
+  const recipients = [
+    ...new Set(logs.flat().map((log) => getAddress(`0x${(log.topics[2] ?? "").slice(-40)}`))),
+  ].filter((recipient) => recipient !== zeroAddress && !senders.some((sender) => sameAddress(sender, recipient)))
+
+  const candidates = recipients.slice(0, MAX_LINKED_WALLETS)
+  const codes = await Promise.all(candidates.map((recipient) => contractReader.getCode(recipient)))
+  return candidates.filter((_, index) => codes[index] === "0x")
+}
+
+// Supply held by the token's actual deployer and owner, plus the wallets they seeded at launch,
+// instead of assuming the largest holder is the creator.
+export async function analyzeCreatorHoldings(
+  providers: Providers,
+  token: string,
+  deployer: string | null,
+  owner: string | null,
+  creationBlock: number | null,
+): Promise<CreatorHoldings> {
+  // A renounced owner() reads as the zero address
+  if (owner && sameAddress(owner, zeroAddress)) owner = null
+  const creators = [
+    ...new Set(
+      [deployer, owner]
+        .filter((address): address is string => !!address)
+        .map((address) => getAddress(address)),
+    ),
+  ]
+  if (creators.length === 0) return getDefaultCreatorHoldings()
+
+  const linked =
+    creationBlock !== null
+      ? await findLinkedWallets(providers, token, creators, creationBlock).catch((error) => {
+          console.error("Error reading launch transfers:", error)
+          return []
+        })
+      : []
+
+  const [totalSupply, ...balances] = await providers.contractReader.readContracts([
+    { address: token, abi: erc20Abi, functionName: "totalSupply" },
+    ...[...creators, ...linked].map((address) => ({
+      address: token,
+      abi: erc20Abi,
+      functionName: "balanceOf",
+      args: [address],
+    })),
+  ])
+  const supply = (totalSupply as bigint | null) ?? BigInt(0)
+  if (supply === BigInt(0)) return { ...getDefaultCreatorHoldings(), deployer, owner }
+
+  // Four decimals of a percent is plenty and keeps the division in bigint
+  const percentage = (balance: unknown) => Number((((balance as bigint | null) ?? BigInt(0)) * BigInt(1000000)) / supply) / 10000
+  const percentageOf = (address: string | null) => {
+    const index = address ? creators.findIndex((creator) => sameAddress(creator, address)) : -1
+    return index === -1 ? 0 : percentage(balances[index])
+  }
+
+  const linkedWallets = linked
+    .map((address, index) => ({ address, percentage: percentage(balances[creators.length + index]) }))
+    .filter((wallet) => wallet.percentage > 0)
+    .sort((a, b) => b.percentage - a.percentage)
+
+  return {
+    deployer,
+    owner,
+    deployerPercentage: percentageOf(deployer),
+    ownerPercentage: percentageOf(owner),
+    directPercentage: creators.reduce((sum, _, index) => sum + percentage(balances[index]), 0),
+    linkedWallets,
+    linkedPercentage: linkedWallets.reduce((sum, wallet) => sum + wallet.percentage, 0),
+  }
+}
+
+export function getDefaultCreatorHoldings(): CreatorHoldings {
+  return {
+    deployer: null,
+    owner: null,
+    deployerPercentage: 0,
+    ownerPercentage: 0,
+    directPercentage: 0,
+    linkedWallets: [],
+    linkedPercentage: 0,
+  }
+}
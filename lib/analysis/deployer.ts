@@ -0,0 +1,305 @@
+import { erc20Abi, formatEther, hexToBigInt, keccak256, toBytes } from "viem"
+import type { ChainConfig } from "@/lib/chains"
+import type { AccountTransaction, ContractCreation, ContractReader, MarketData, Providers } from "@/lib/providers"
+import { findLabel, type AddressLabel } from "@/lib/registry/labels"
+import type { LiquidityAnalysis } from "./liquidity"
+
+export interface FundingSource {
+  address: string
+  // Known mixer or exchange, null for unlabeled wallets
+  label: AddressLabel | null
+  txHash: string
+  // Unix seconds
+  timestamp: number
+  // Native amount received, in whole units
+  amount: number
+}
+
+export interface DeployedToken {
+  address: string
+  // The deployer itself or a wallet it funded
+  deployer: string
+  name: string | null
+  symbol: string | null
+  txHash: string
+  // Unix seconds
+  timestamp: number
+}
+
+// rugged: liquidity was removed from its pools down to ~0 or the price fell more than 95% from its high;
+// unlaunched: no pool was ever found
+export type PriorTokenStatus = "active" | "rugged" | "unlaunched"
+
+export interface PriorToken extends DeployedToken {
+  status: PriorTokenStatus
+  // Why the token was marked rugged, null otherwise
+  reason: string | null
+  liquidityUsd: number
+  athChangePercentage: number | null
+  // Overall risk score from the lightweight analysis
+  riskScore: number
+}
+
+export interface DeployerAnalysis {
+  deployer: string | null
+  creationTxHash: string | null
+  creationBlock: number | null
+  // Unix seconds
+  creationTimestamp: number | null
+  contractAgeDays: number | null
+  // Unix seconds of the deployer's first transaction
+  walletFirstSeen: number | null
+  // How old the deployer wallet was when it deployed this token
+  walletAgeAtDeploymentDays: number | null
+  // First native transfer the deployer received
+  fundedBy: FundingSource | null
+  // Hours between that funding and this token's deployment
+  fundingToDeploymentHours: number | null
+  // Contracts the deployer created directly, this token included
+  contractsDeployed: number
+  // ERC-20 tokens among them, excluding this token
+  otherTokens: DeployedToken[]
+  // Wallets the deployer sent native funds to, and the tokens they deployed
+  fundedWallets: string[]
+  fundedWalletTokens: DeployedToken[]
+  // Lightweight analyses of the tokens above; filled in by the route
+  priorTokens: PriorToken[]
+  // Whether the deployer has more transactions than were read
+  historyTruncated: boolean
+}
+
+const MAX_TRANSACTIONS = 1000
+const MAX_CREATED_CONTRACTS = 50
+// Each funded wallet costs an explorer call, so only the first few are followed
+const MAX_FUNDED_WALLETS = 5
+
+// Below this, pools that liquidity was removed from are considered drained
+const RUGGED_LIQUIDITY_USD = 1000
+const RUGGED_ATH_DROP = -95
+
+const DAY = 24 * 60 * 60
+
+// Remove-liquidity events of Uniswap v2 pairs and v3 pools
+const V2_BURN_TOPIC = keccak256(toBytes("Burn(address,uint256,uint256,address)"))
+const V3_BURN_TOPIC = keccak256(toBytes("Burn(address,int24,int24,uint128,uint256,uint256)"))
+// v3 burns are read a page at a time until one removes liquidity, and only this many pages
+const V3_BURN_PAGE_SIZE = 100
+const MAX_V3_BURN_PAGES = 5
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+// Earliest incoming native transfer, normal or internal
+function findFunding(chain: ChainConfig, deployer: string, transactions: AccountTransaction[]): FundingSource | null {
+  const funding = transactions
+    .filter((tx) => !tx.isError && tx.to && sameAddress(tx.to, deployer) && tx.value > BigInt(0))
+    .sort((a, b) => a.blockNumber - b.blockNumber)[0]
+  if (!funding) return null
+
+  return {
+    address: funding.from,
+    label: findLabel(chain.id, funding.from),
+    txHash: funding.hash,
+    timestamp: funding.timestamp,
+    amount: Number(formatEther(funding.value)),
+  }
+}
+
+// ERC-20 contracts created by the wallet's own transactions, excluding the analyzed token.
+// Anything answering totalSupply() and symbol() is treated as a token.
+async function findDeployedTokens(
+  contractReader: ContractReader,
+  wallet: string,
+  transactions: AccountTransaction[],
+  token: string,
+): Promise<DeployedToken[]> {
+  const candidates = transactions
+    .filter((tx) => !tx.isError && tx.to === null && tx.contractAddress && !sameAddress(tx.contractAddress, token))
+    .slice(-MAX_CREATED_CONTRACTS)
+  if (candidates.length === 0) return []
+
+  const metadata = await contractReader.readContracts(
+    candidates.flatMap((tx) =>
+      (["name", "symbol", "totalSupply"] as const).map((functionName) => ({
+        address: tx.contractAddress!,
+        abi: erc20Abi,
+        functionName,
+      })),
+    ),
+  )
+  return candidates.flatMap((tx, index) => {
+    const [name, symbol, totalSupply] = metadata.slice(index * 3, index * 3 + 3)
+    if (totalSupply === null || symbol === null) return []
+    return [
+      {
+        address: tx.contractAddress!,
+        deployer: wallet,
+        name: name as string | null,
+        symbol: symbol as string,
+        txHash: tx.hash,
+        timestamp: tx.timestamp,
+      },
+    ]
+  })
+}
+
+// Wallets the deployer sent native funds to. Rug teams often launch from freshly funded wallets
+// so their history does not show up on the main deployer.
+async function findFundedWallets(contractReader: ContractReader, deployer: string, transactions: AccountTransaction[]) {
+  const recipients = [
+    ...new Set(
+      transactions
+        .filter((tx) => !tx.isError && sameAddress(tx.from, deployer) && tx.to && tx.value > BigInt(0))
+        .map((tx) => tx.to!.toLowerCase()),
+    ),
+  ]
+  const candidates = recipients.slice(0, MAX_FUNDED_WALLETS * 4)
+  const codes = await Promise.all(candidates.map((recipient) => contractReader.getCode(recipient)))
+  return candidates.filter((_, index) => codes[index] === "0x").slice(0, MAX_FUNDED_WALLETS)
+}
+
+// Profiles the token's deployer from its transaction history: how old the wallet was, where its
+// first funds came from, and which other tokens it has deployed.
+export async function analyzeDeployer(
+  { accountProvider, contractReader }: Providers,
+  chain: ChainConfig,
+  token: string,
+  creation: ContractCreation | null,
+): Promise<DeployerAnalysis> {
+  if (!creation) return getDefaultDeployerAnalysis()
+  const deployer = creation.creator
+
+  const [transactions, internalTransactions] = await Promise.all([
+    accountProvider.getTransactions(deployer, MAX_TRANSACTIONS),
+    accountProvider.getInternalTransactions(deployer, MAX_TRANSACTIONS).catch((error) => {
+      console.error("Error fetching deployer internal transactions:", error)
+      return []
+    }),
+  ])
+
+  // Older explorer APIs omit the creation block, but the deployer's own history has it
+  const creationTx = transactions.find((tx) => tx.hash.toLowerCase() === creation.txHash.toLowerCase())
+  const creationBlock = creation.blockNumber ?? creationTx?.blockNumber ?? null
+  const creationTimestamp = creation.timestamp ?? creationTx?.timestamp ?? null
+
+  const firstSeen = [transactions[0]?.timestamp, internalTransactions[0]?.timestamp].filter(
+    (timestamp): timestamp is number => timestamp !== undefined,
+  )
+  const walletFirstSeen = firstSeen.length > 0 ? Math.min(...firstSeen) : null
+  const fundedBy = findFunding(chain, deployer, [...transactions, ...internalTransactions])
+
+  const [otherTokens, fundedWallets] = await Promise.all([
+    findDeployedTokens(contractReader, deployer, transactions, token),
+    findFundedWallets(contractReader, deployer, transactions),
+  ])
+  const fundedWalletTokens = (
+    await Promise.all(
+      fundedWallets.map(async (wallet) => {
+        try {
+          const walletTransactions = await accountProvider.getTransactions(wallet, MAX_TRANSACTIONS)
+          return await findDeployedTokens(contractReader, wallet, walletTransactions, token)
+        } catch (error) {
+          console.error(`Error reading tokens deployed by ${wallet}:`, error)
+          return []
+        }
+      }),
+    )
+  ).flat()
+
+  const now = Date.now() / 1000
+  return {
+    deployer,
+    creationTxHash: creation.txHash,
+    creationBlock,
+    creationTimestamp,
+    contractAgeDays: creationTimestamp !== null ? (now - creationTimestamp) / DAY : null,
+    walletFirstSeen,
+    walletAgeAtDeploymentDays:
+      creationTimestamp !== null && walletFirstSeen !== null ? (creationTimestamp - walletFirstSeen) / DAY : null,
+    fundedBy,
+    fundingToDeploymentHours:
+      creationTimestamp !== null && fundedBy ? (creationTimestamp - fundedBy.timestamp) / (60 * 60) : null,
+    contractsDeployed: transactions.filter((tx) => !tx.isError && tx.to === null && tx.contractAddress).length,
+    otherTokens,
+    fundedWallets,
+    fundedWalletTokens,
+    priorTokens: [],
+    historyTruncated: transactions.length >= MAX_TRANSACTIONS,
+  }
+}
+
+// Whether the token's pools are nearly empty because liquidity was taken out of them. A pool that
+// was only ever seeded with a little has no remove-liquidity events and is not a drain.
+export async function wasLiquidityDrained({ logProvider }: Providers, liquidity: LiquidityAnalysis): Promise<boolean> {
+  if (liquidity.pools.length === 0 || liquidity.nativePriceUsd === null) return false
+  if (liquidity.totalLiquidityUsd >= RUGGED_LIQUIDITY_USD) return false
+
+  const removals = await Promise.all(
+    liquidity.pools.map(async (pool) => {
+      if (pool.version === "v2") {
+        return (await logProvider.getLogs(pool.address, V2_BURN_TOPIC, { limit: 1 })).length > 0
+      }
+      // v3 position managers burn zero liquidity to collect fees, so only a non-zero amount counts
+      let fromBlock = 0
+      for (let page = 0; page < MAX_V3_BURN_PAGES; page++) {
+        const burns = await logProvider.getLogs(pool.address, V3_BURN_TOPIC, { fromBlock, limit: V3_BURN_PAGE_SIZE })
+        if (burns.some((log) => log.data.length >= 66 && hexToBigInt(`0x${log.data.slice(2, 66)}`) > BigInt(0))) {
+          return true
+        }
+        if (burns.length < V3_BURN_PAGE_SIZE) return false
+        fromBlock = burns[burns.length - 1].blockNumber + 1
+      }
+      return false
+    }),
+  )
+  return removals.some(Boolean)
+}
+
+// Marks a previously deployed token as rugged from a lightweight analysis of it
+export function classifyPriorToken(
+  token: DeployedToken,
+  liquidity: LiquidityAnalysis,
+  marketData: MarketData | null,
+  riskScore: number,
+  // From wasLiquidityDrained()
+  drained: boolean,
+): PriorToken {
+  const athChangePercentage = marketData && marketData.ath > 0 ? marketData.athChangePercentage : null
+  let status: PriorTokenStatus = liquidity.pools.length > 0 ? "active" : "unlaunched"
+  let reason: string | null = null
+
+  if (drained) {
+    status = "rugged"
+    reason = `liquidity removed down to $${liquidity.totalLiquidityUsd.toFixed(0)}`
+  } else if (athChangePercentage !== null && athChangePercentage < RUGGED_ATH_DROP) {
+    status = "rugged"
+    reason = `price down ${Math.abs(athChangePercentage).toFixed(1)}% from its high`
+  }
+
+  return {
+    ...token,
+    status,
+    reason,
+    liquidityUsd: liquidity.totalLiquidityUsd,
+    athChangePercentage,
+    riskScore,
+  }
+}
+
+export function getDefaultDeployerAnalysis(): DeployerAnalysis {
+  return {
+    deployer: null,
+    creationTxHash: null,
+    creationBlock: null,
+    creationTimestamp: null,
+    contractAgeDays: null,
+    walletFirstSeen: null,
+    walletAgeAtDeploymentDays: null,
+    fundedBy: null,
+    fundingToDeploymentHours: null,
+    contractsDeployed: 0,
+    otherTokens: [],
+    fundedWallets: [],
+    fundedWalletTokens: [],
+    priorTokens: [],
+    historyTruncated: false,
+  }
+}
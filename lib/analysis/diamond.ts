@@ -0,0 +1,77 @@
+import { toFunctionSelector } from "viem"
+import { diamondLoupeAbi } from "@/lib/abis"
+import type { ContractReader } from "@/lib/providers"
+import type { LogicContract } from "./types"
+
+export interface DiamondFacet {
+  address: string
+  selectors: string[]
+}
+
+// diamondCut((address,uint8,bytes4[])[],address,bytes) lets its caller add, replace or remove facets
+export const DIAMOND_CUT_SELECTOR = "0x1f931c1c"
+
+// Enumerates an EIP-2535 diamond's facets through the loupe. Returns null when the contract does
+// not implement the loupe.
+export async function resolveDiamond(contractReader: ContractReader, address: string): Promise<DiamondFacet[] | null> {
+  const facets = (await contractReader.readContract({
+    address,
+    abi: diamondLoupeAbi,
+    functionName: "facets",
+  })) as ReadonlyArray<{ facetAddress: string; functionSelectors: readonly string[] }> | null
+
+  if (facets && facets.length > 0) {
+    return facets.map((facet) => ({ address: facet.facetAddress, selectors: [...facet.functionSelectors] }))
+  }
+
+  // Some diamonds only expose the cheaper per-facet loupe functions
+  const addresses = (await contractReader.readContract({
+    address,
+    abi: diamondLoupeAbi,
+    functionName: "facetAddresses",
+  })) as readonly string[] | null
+  if (!addresses || addresses.length === 0) return null
+
+  const selectors = await contractReader.readContracts(
+    addresses.map((facet) => ({
+      address,
+      abi: diamondLoupeAbi,
+      functionName: "facetFunctionSelectors",
+      args: [facet],
+    })),
+  )
+  return addresses.map((facet, index) => ({
+    address: facet,
+    selectors: [...((selectors[index] as readonly string[] | null) ?? [])],
+  }))
+}
+
+// A facet is only reachable through the selectors the diamond routes to it, so findings (and
+// privileged functions) for functions the diamond does not route are dropped. Findings without a
+// function signature (e.g. a DELEGATECALL opcode) are kept.
+export function routedFindings<T extends { function: string }>(
+  findings: T[],
+  facet: DiamondFacet,
+): Array<T & { facet: string }> {
+  return findings
+    .filter((finding) => isRouted(finding.function, facet))
+    .map((finding) => ({ ...finding, facet: facet.address }))
+}
+
+// Whether the diamond routes the function to the facet; names that are not signatures are kept
+export function isRouted(signature: string, facet: DiamondFacet): boolean {
+  if (!signature.includes("(")) return true
+  let selector: string
+  try {
+    selector = toFunctionSelector(signature)
+  } catch {
+    return true
+  }
+  return facet.selectors.some((routed) => routed.toLowerCase() === selector)
+}
+
+// What callers can reach of the entries read from a contract's code: on a diamond facet only the
+// functions routed to it, elsewhere everything
+export function reachable<T extends { function: string }>(entries: T[], contract: LogicContract): T[] {
+  return contract.facet ? routedFindings(entries, contract.facet) : entries
+}
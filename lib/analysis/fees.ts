@@ -0,0 +1,198 @@
+import { parseAbi, toFunctionSelector } from "viem"
+import type { Providers } from "@/lib/providers"
+import { analyzeBytecode } from "./bytecode"
+import { reachable } from "./diamond"
+import type { OwnershipAnalysis } from "./ownership"
+import { feeKind, type FeeKind } from "./solidity"
+import type { LogicContract, SecurityFinding } from "./types"
+
+export interface FeeReading {
+  // Getter the value was read from, e.g. "buyTotalFees"
+  getter: string
+  kind: FeeKind
+  // Raw value in the contract's units, and as a percentage
+  value: number
+  percentage: number
+}
+
+export interface FeeSetter {
+  function: string
+  modifiers: string[]
+  // null when read from bytecode
+  guarded: boolean | null
+  // Whether the setter enforces a hard-coded maximum; null when it cannot be told from bytecode
+  capped: boolean | null
+  capPercentage: number | null
+}
+
+export interface FeeAnalysis {
+  // Configured fees read on-chain, as percentages; null when no getter could be read
+  buyFee: number | null
+  sellFee: number | null
+  transferFee: number | null
+  readings: FeeReading[]
+  // What fee values are divided by; assumed to be 100 (percent) when the source does not say
+  denominator: number
+  denominatorAssumed: boolean
+  setters: FeeSetter[]
+  // Highest fee the setters allow: 100 when one is uncapped, null when unknown or there are no setters
+  maxFeePercentage: number | null
+  // Who can call the setters, null when there are none
+  changeableBy: "anyone" | "owner" | "nobody" | null
+  controller: string | null
+  analysisMethod: "source" | "bytecode" | "none"
+}
+
+// Common fee getters looked for in unverified bytecode
+const FEE_GETTERS = [
+  "buyTotalFees",
+  "sellTotalFees",
+  "buyFee",
+  "sellFee",
+  "buyTax",
+  "sellTax",
+  "transferFee",
+  "totalFees",
+  "taxFee",
+  "_taxFee",
+  "_liquidityFee",
+]
+
+const DEFAULT_DENOMINATOR = 100
+
+// Per kind, a getter named like a total wins over summing the components it totals
+function feeOf(readings: FeeReading[], kind: FeeKind): number | null {
+  const matching = readings.filter((reading) => reading.kind === kind)
+  if (matching.length === 0) return null
+  const totals = matching.filter((reading) => /total/i.test(reading.getter))
+  return Math.min((totals.length > 0 ? totals : matching).reduce((sum, reading) => sum + reading.percentage, 0), 100)
+}
+
+// Getters callers can reach, by name
+const reachableGetters = (names: string[], contract: LogicContract) =>
+  reachable(names.map((name) => ({ name, function: `${name}()` })), contract).map((getter) => getter.name)
+
+// Fee getters and setters one contract's code exposes, limited to what the diamond routes for facets
+async function contractFees(
+  { contractReader }: Providers,
+  contract: LogicContract,
+  findings: SecurityFinding[],
+  toPercentage: (value: number) => number,
+): Promise<{ getters: string[]; setters: FeeSetter[] }> {
+  const sourceFees = contract.source?.fees ?? null
+  if (sourceFees) {
+    return {
+      getters: reachableGetters(
+        sourceFees.variables.filter((variable) => variable.public).map((variable) => variable.name),
+        contract,
+      ),
+      setters: reachable(sourceFees.setters, contract).map((setter) => ({
+        function: setter.function,
+        modifiers: setter.modifiers,
+        guarded: setter.guarded,
+        capped: setter.cap !== null,
+        capPercentage: setter.cap !== null ? Math.min(toPercentage(setter.cap), 100) : null,
+      })),
+    }
+  }
+
+  const code = await contractReader.getCode(contract.address)
+  const selectors = new Set(code === "0x" ? [] : analyzeBytecode(code).selectors)
+  return {
+    getters: reachableGetters(
+      FEE_GETTERS.filter((name) => selectors.has(toFunctionSelector(`${name}()`))),
+      contract,
+    ),
+    // A diamond's findings are already routed and tagged with their facet
+    setters: findings
+      .filter((finding) => finding.capability === "fee")
+      .filter((finding) => !contract.facet || finding.facet === contract.address)
+      .map((finding) => ({
+        function: finding.function,
+        modifiers: finding.modifiers,
+        guarded: finding.guarded,
+        capped: null,
+        capPercentage: null,
+      })),
+  }
+}
+
+// Reads the token's configured buy, sell and transfer fees through their public getters and lists
+// the functions that can change them, with the cap each enforces. Verified source gives the fee
+// variables, the setters' caps and the fee denominator; for unverified code only common getter
+// names and the fee setter findings are known.
+export async function analyzeFees(
+  providers: Providers,
+  token: string,
+  // Code that runs against the token's storage: the token, a proxy's implementation or diamond facets
+  contracts: LogicContract[],
+  findings: SecurityFinding[],
+  ownership: OwnershipAnalysis,
+): Promise<FeeAnalysis> {
+  const sourceDenominator =
+    contracts.map((contract) => contract.source?.fees.denominator ?? null).find((value) => value !== null) ?? null
+  const denominator = sourceDenominator ?? DEFAULT_DENOMINATOR
+  const toPercentage = (value: number) => (value / denominator) * 100
+
+  const exposed = await Promise.all(
+    contracts.map((contract) => contractFees(providers, contract, findings, toPercentage)),
+  )
+  const getters = [...new Set(exposed.flatMap((entry) => entry.getters))]
+  const setters = exposed.flatMap((entry) => entry.setters)
+
+  const values = await providers.contractReader.readContracts(
+    getters.map((name) => ({
+      address: token,
+      abi: parseAbi([`function ${name}() view returns (uint256)`]),
+      functionName: name,
+    })),
+  )
+  const readings: FeeReading[] = getters.flatMap((getter, index) => {
+    const value = values[index]
+    if (value === null) return []
+    return [{ getter, kind: feeKind(getter), value: Number(value), percentage: toPercentage(Number(value)) }]
+  })
+
+  let maxFeePercentage: number | null = null
+  if (setters.some((setter) => setter.capped === false)) {
+    maxFeePercentage = 100
+  } else if (setters.length > 0 && setters.every((setter) => setter.capPercentage !== null)) {
+    maxFeePercentage = Math.max(...setters.map((setter) => setter.capPercentage!))
+  }
+
+  let changeableBy: FeeAnalysis["changeableBy"] = null
+  if (setters.some((setter) => setter.guarded === false)) changeableBy = "anyone"
+  else if (setters.length > 0) changeableBy = ownership.type === "renounced" ? "nobody" : "owner"
+
+  const all = feeOf(readings, "all")
+  const fromSource = contracts.some((contract) => contract.source !== null)
+  return {
+    buyFee: feeOf(readings, "buy") ?? all,
+    sellFee: feeOf(readings, "sell") ?? all,
+    transferFee: feeOf(readings, "transfer") ?? all,
+    readings,
+    denominator,
+    denominatorAssumed: sourceDenominator === null,
+    setters,
+    maxFeePercentage,
+    changeableBy,
+    controller: changeableBy === "owner" ? ownership.controller : null,
+    analysisMethod: fromSource ? "source" : getters.length > 0 || setters.length > 0 ? "bytecode" : "none",
+  }
+}
+
+export function getDefaultFeeAnalysis(): FeeAnalysis {
+  return {
+    buyFee: null,
+    sellFee: null,
+    transferFee: null,
+    readings: [],
+    denominator: DEFAULT_DENOMINATOR,
+    denominatorAssumed: true,
+    setters: [],
+    maxFeePercentage: null,
+    changeableBy: null,
+    controller: null,
+    analysisMethod: "none",
+  }
+}
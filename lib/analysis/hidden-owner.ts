@@ -0,0 +1,200 @@
+import { getAddress, numberToHex, parseAbi, toFunctionSelector, zeroAddress } from "viem"
+import type { Providers } from "@/lib/providers"
+import { analyzeBytecode } from "./bytecode"
+import { isRouted, reachable } from "./diamond"
+import type { OwnershipAnalysis } from "./ownership"
+import { CONTROLLING_POWERS, type HiddenOwnerFinding, type SourceHiddenOwner, type StoredAddress } from "./solidity"
+import type { LogicContract, PrivilegeCategory } from "./types"
+
+export interface PrivilegedAddress {
+  variable: string
+  // Value read on-chain, null when it could not be read
+  address: string | null
+  // Guarded functions that check the caller against it, and what they can do
+  functions: string[]
+  powers: PrivilegeCategory[]
+}
+
+export interface HiddenOwnerAnalysis {
+  findings: HiddenOwnerFinding[]
+  // The owner variable as stored, which an overridden owner() can hide
+  storedOwner: string | null
+  // _previousOwner of the lock/unlock trick
+  previousOwner: string | null
+  privilegedAddresses: PrivilegedAddress[]
+  // owner() reads as renounced while some address keeps or can regain control
+  appearsRenounced: boolean
+  // That address, when known
+  hiddenController: string | null
+  analysisMethod: "source" | "bytecode" | "none"
+}
+
+// The lock/unlock trick of SafeMoon forks, recognizable in unverified bytecode by these functions
+const LOCK_FUNCTIONS = ["lock(uint256)", "unlock()", "geUnlockTime()", "getUnlockTime()"]
+
+const DEAD_ADDRESS = "0x000000000000000000000000000000000000dead"
+
+const isSet = (address: string | null): address is string =>
+  address !== null && address.toLowerCase() !== zeroAddress && address.toLowerCase() !== DEAD_ADDRESS
+
+// Private variables are read from their storage slot, public ones through their getter as a fallback
+async function readStoredAddress(
+  { contractReader }: Providers,
+  token: string,
+  variable: StoredAddress,
+): Promise<string | null> {
+  if (variable.storage) {
+    const { slot, offset, size } = variable.storage
+    const word = (await contractReader.getStorageAt(token, numberToHex(slot, { size: 32 }))).slice(2).padStart(64, "0")
+    const end = 64 - offset * 2
+    return getAddress(`0x${word.slice(end - size * 2, end)}`)
+  }
+  if (!variable.public) return null
+  const value = await contractReader.readContract({
+    address: token,
+    abi: parseAbi([`function ${variable.name}() view returns (address)`]),
+    functionName: variable.name,
+  })
+  return typeof value === "string" ? value : null
+}
+
+// The lock/unlock trick in unverified code, when callers can reach unlock()
+async function findLockInBytecode(
+  { contractReader }: Providers,
+  contract: LogicContract,
+): Promise<HiddenOwnerFinding | null> {
+  const code = await contractReader.getCode(contract.address)
+  const selectors = new Set(code === "0x" ? [] : analyzeBytecode(code).selectors)
+  const lockFunctions = reachable(
+    LOCK_FUNCTIONS.filter((signature) => selectors.has(toFunctionSelector(signature))).map((signature) => ({
+      function: signature,
+    })),
+    contract,
+  ).map((entry) => entry.function)
+  if (!lockFunctions.includes("unlock()")) return null
+  return {
+    pattern: "lockUnlock",
+    function: "unlock()",
+    variable: null,
+    location: null,
+    description: `${lockFunctions.join(", ")} found in bytecode: a previous owner can take ownership back`,
+  }
+}
+
+// A facet's owner variables and findings, without the functions the diamond does not route to it
+function routedHiddenOwner(source: SourceHiddenOwner, contract: LogicContract): SourceHiddenOwner {
+  const facet = contract.facet
+  if (!facet) return source
+  return {
+    ...source,
+    privilegedVariables: source.privilegedVariables
+      .map((variable) => ({ ...variable, functions: variable.functions.filter((fn) => isRouted(fn, facet)) }))
+      .filter((variable) => variable.functions.length > 0),
+    findings: source.findings.filter((finding) => finding.function === null || isRouted(finding.function, facet)),
+  }
+}
+
+// Cross-checks owner() against the owner variable as stored, a lock/unlock _previousOwner and every
+// other address privileged functions check the caller against. A renounced owner() while any of
+// these still holds an address that can control the token means ownership only appears renounced.
+export async function analyzeHiddenOwner(
+  providers: Providers,
+  token: string,
+  // Code that runs against the token's storage: the token, a proxy's implementation or diamond facets
+  contracts: LogicContract[],
+  ownership: OwnershipAnalysis,
+): Promise<HiddenOwnerAnalysis> {
+  const renounced = ownership.type === "renounced"
+  const sources = contracts.flatMap((contract) =>
+    contract.source ? [routedHiddenOwner(contract.source.hiddenOwner, contract)] : [],
+  )
+  const lockFindings = (
+    await Promise.all(
+      contracts.filter((contract) => !contract.source).map((contract) => findLockInBytecode(providers, contract)),
+    )
+  ).filter((finding): finding is HiddenOwnerFinding => finding !== null)
+
+  if (sources.length === 0) {
+    if (lockFindings.length === 0) return getDefaultHiddenOwnerAnalysis()
+    return {
+      ...getDefaultHiddenOwnerAnalysis(),
+      findings: lockFindings,
+      appearsRenounced: renounced,
+      analysisMethod: "bytecode",
+    }
+  }
+
+  // Facets of a diamond share its storage, so their variables are read alike
+  const sourceHiddenOwner: SourceHiddenOwner = {
+    ownerVariable: sources.find((source) => source.ownerVariable)?.ownerVariable ?? null,
+    previousOwnerVariable: sources.find((source) => source.previousOwnerVariable)?.previousOwnerVariable ?? null,
+    privilegedVariables: sources.flatMap((source) => source.privilegedVariables),
+    findings: [...sources.flatMap((source) => source.findings), ...lockFindings],
+  }
+
+  const read = (variable: StoredAddress | null) =>
+    variable
+      ? readStoredAddress(providers, token, variable).catch((error) => {
+          console.error(`Error reading ${variable.name}:`, error)
+          return null
+        })
+      : Promise.resolve(null)
+  const [storedOwner, previousOwner, ...privileged] = await Promise.all([
+    read(sourceHiddenOwner.ownerVariable),
+    read(sourceHiddenOwner.previousOwnerVariable),
+    ...sourceHiddenOwner.privilegedVariables.map(read),
+  ])
+  const privilegedAddresses: PrivilegedAddress[] = sourceHiddenOwner.privilegedVariables.map((variable, index) => ({
+    variable: variable.name,
+    address: privileged[index],
+    functions: variable.functions,
+    powers: variable.powers,
+  }))
+
+  const has = (pattern: HiddenOwnerFinding["pattern"]) =>
+    sourceHiddenOwner.findings.some((finding) => finding.pattern === pattern)
+  // Whoever still controls the token once owner() reads zero, in order of how directly they do
+  const controllers = [
+    isSet(storedOwner) ? storedOwner : null,
+    has("lockUnlock") && isSet(previousOwner) ? previousOwner : null,
+    ...privilegedAddresses
+      .filter((entry) => entry.powers.some((power) => CONTROLLING_POWERS.includes(power)))
+      .map((entry) => (isSet(entry.address) ? entry.address : null)),
+  ].filter((address): address is string => address !== null)
+
+  // An owner() overridden to return zero hides the owner that is still stored
+  const ownerVariable = sourceHiddenOwner.ownerVariable
+  const hiddenByGetter = renounced && ownerVariable && isSet(storedOwner)
+    ? [
+        {
+          pattern: "fakeRenounce" as const,
+          function: "owner()",
+          variable: ownerVariable.name,
+          location: null,
+          description: `owner() returns zero but ${ownerVariable.name} still holds ${storedOwner}`,
+        },
+      ]
+    : []
+
+  return {
+    findings: [...sourceHiddenOwner.findings, ...hiddenByGetter],
+    storedOwner,
+    previousOwner,
+    privilegedAddresses,
+    appearsRenounced: renounced && (controllers.length > 0 || has("ownerBackdoor")),
+    hiddenController: renounced ? (controllers[0] ?? null) : null,
+    analysisMethod: "source",
+  }
+}
+
+export function getDefaultHiddenOwnerAnalysis(): HiddenOwnerAnalysis {
+  return {
+    findings: [],
+    storedOwner: null,
+    previousOwner: null,
+    privilegedAddresses: [],
+    appearsRenounced: false,
+    hiddenController: null,
+    analysisMethod: "none",
+  }
+}
@@ -0,0 +1,81 @@
+import { safeAbi, uniswapV2PairAbi, vestingAbi } from "@/lib/abis"
+import type { ChainConfig } from "@/lib/chains"
+import type { ContractReader, TokenHolder } from "@/lib/providers"
+import { findLabel } from "@/lib/registry/labels"
+import { findLocker, isBurnAddress } from "@/lib/registry/lockers"
+
+export type HolderLabel =
+  | "pool"
+  | "burn"
+  | "locker"
+  | "vesting"
+  | "exchange"
+  | "bridge"
+  | "multisig"
+  | "contract"
+  | "eoa"
+
+export interface LabeledHolder extends TokenHolder {
+  label: HolderLabel
+  // Registry name, e.g. "Binance 14" or "PinkLock", null when only the code was checked
+  name: string | null
+}
+
+// Holders that keep tokens for others or out of circulation rather than for themselves
+const INFRASTRUCTURE: HolderLabel[] = ["pool", "burn", "locker", "vesting", "exchange", "bridge"]
+
+export function isInfrastructure(label: HolderLabel): boolean {
+  return INFRASTRUCTURE.includes(label)
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+// Labels each holder from the local registries first, then by probing its code: anything with
+// token0()/token1() is a pool, getThreshold() a Safe, start()/duration() a vesting schedule.
+export async function classifyHolders(
+  contractReader: ContractReader,
+  chain: ChainConfig,
+  holders: TokenHolder[],
+  pools: string[],
+): Promise<LabeledHolder[]> {
+  const known = holders.map((holder): Pick<LabeledHolder, "label" | "name"> | null => {
+    if (isBurnAddress(holder.address)) return { label: "burn", name: null }
+    if (pools.some((pool) => sameAddress(pool, holder.address))) return { label: "pool", name: null }
+    const locker = findLocker(chain.id, holder.address)
+    if (locker) return { label: "locker", name: locker.name }
+    const registered = findLabel(chain.id, holder.address)
+    if (registered && registered.kind !== "mixer" && registered.kind !== "sniper") {
+      return { label: registered.kind, name: registered.name }
+    }
+    return null
+  })
+
+  const unknown = holders.filter((_, index) => known[index] === null)
+  const codes = await Promise.all(unknown.map((holder) => contractReader.getCode(holder.address)))
+  const contracts = unknown.filter((_, index) => codes[index] !== "0x")
+  const probes = await contractReader.readContracts(
+    contracts.flatMap((holder) => [
+      { address: holder.address, abi: uniswapV2PairAbi, functionName: "token0" },
+      { address: holder.address, abi: uniswapV2PairAbi, functionName: "token1" },
+      { address: holder.address, abi: safeAbi, functionName: "getThreshold" },
+      { address: holder.address, abi: vestingAbi, functionName: "start" },
+      { address: holder.address, abi: vestingAbi, functionName: "duration" },
+    ]),
+  )
+
+  const probed = new Map(
+    contracts.map((holder, index) => {
+      const [token0, token1, threshold, start, duration] = probes.slice(index * 5, index * 5 + 5)
+      let label: HolderLabel = "contract"
+      if (token0 !== null && token1 !== null) label = "pool"
+      else if (threshold !== null) label = "multisig"
+      else if (start !== null && duration !== null) label = "vesting"
+      return [holder.address, label]
+    }),
+  )
+
+  return holders.map((holder, index) => ({
+    ...holder,
+    ...(known[index] ?? { label: probed.get(holder.address) ?? "eoa", name: null }),
+  }))
+}
@@ -0,0 +1,78 @@
+import { parseEther } from "viem"
+import type { ChainConfig } from "@/lib/chains"
+import type { SwapSimulation, TradeSimulator } from "@/lib/providers"
+import type { LiquidityAnalysis } from "./liquidity"
+
+export interface HoneypotAnalysis extends SwapSimulation {
+  // False when no simulation node is configured or the token has no V2 pair against wrapped native
+  simulated: boolean
+  dex: string | null
+  pair: string | null
+  // Native amount spent on the simulated buy, in wei
+  amountIn: string | null
+}
+
+// Buy size as a share of the pool's native reserve, capped at one native token, so price impact
+// stays out of the measured tax
+const BUY_RESERVE_SHARE = 0.005
+const MAX_BUY = 1
+
+// Buys and sells the token on a fork of the chain to catch honeypots: tokens that can be bought
+// but revert or confiscate on sell.
+export async function analyzeHoneypot(
+  tradeSimulator: TradeSimulator | null,
+  chain: ChainConfig,
+  token: string,
+  liquidity: LiquidityAnalysis,
+): Promise<HoneypotAnalysis> {
+  const analysis = getDefaultHoneypotAnalysis()
+
+  if (!tradeSimulator) {
+    analysis.error = "No simulation node configured for this chain"
+    return analysis
+  }
+
+  // Pools are sorted by liquidity, so this is the deepest V2 pair against wrapped native
+  const main = liquidity.pools.find(
+    (pool) => pool.version === "v2" && pool.quoteToken.toLowerCase() === chain.wrappedNative.toLowerCase(),
+  )
+  const dex = main && chain.dexes.find((candidate) => candidate.name === main.dex)
+  if (!main || !dex || main.quoteReserve <= 0) {
+    analysis.error = `No ${chain.nativeSymbol} pair with liquidity found`
+    return analysis
+  }
+
+  const amountIn = parseEther(Math.min(main.quoteReserve * BUY_RESERVE_SHARE, MAX_BUY).toFixed(18))
+  const simulation = await tradeSimulator.simulateSwap({
+    token,
+    router: dex.router,
+    wrappedNative: chain.wrappedNative,
+    amountIn,
+  })
+
+  return {
+    ...simulation,
+    simulated: true,
+    dex: dex.name,
+    pair: main.address,
+    amountIn: amountIn.toString(),
+  }
+}
+
+export function getDefaultHoneypotAnalysis(): HoneypotAnalysis {
+  return {
+    simulated: false,
+    dex: null,
+    pair: null,
+    amountIn: null,
+    canBuy: false,
+    canSell: false,
+    canTransfer: null,
+    transferError: null,
+    buyTax: null,
+    sellTax: null,
+    transferTax: null,
+    gasUsed: { buy: null, sell: null, transfer: null },
+    error: null,
+  }
+}
@@ -0,0 +1,193 @@
+import { erc20Abi, getAddress, keccak256, pad, toBytes } from "viem"
+import type { ChainConfig } from "@/lib/chains"
+import type { LogEntry, Providers } from "@/lib/providers"
+import { findLabel } from "@/lib/registry/labels"
+import type { LiquidityAnalysis } from "./liquidity"
+
+export interface LaunchBuy {
+  buyer: string
+  transactionHash: string
+  blockNumber: number
+  // Blocks after liquidity was added, 0 for the same block
+  blockOffset: number
+  // Share of total supply received
+  percentage: number
+  // Landed in the liquidity-add block or in a transaction that bought for several wallets
+  bundled: boolean
+  // The deployer itself, or a wallet it sent native funds to
+  insider: boolean
+  // Known sniper bot the buy went through, null otherwise
+  sniperBot: string | null
+}
+
+export interface LaunchAnalysis {
+  // Pool that received the first liquidity
+  pool: string | null
+  liquidityAddedBlock: number | null
+  // Unix seconds
+  liquidityAddedTimestamp: number | null
+  // Blocks after the liquidity add that count as the launch window
+  windowBlocks: number
+  buys: LaunchBuy[]
+  // Shares of total supply bought in the window, in total and by each kind of buyer
+  launchPercentage: number
+  bundledPercentage: number
+  insiderPercentage: number
+  sniperPercentage: number
+  // Buyers whose funding was checked; the rest count as plain buyers
+  buyersChecked: number
+}
+
+const TRANSFER_TOPIC = keccak256(toBytes("Transfer(address,address,uint256)"))
+
+const LAUNCH_BLOCKS = 10
+// Each buyer costs an explorer call, so only the largest are checked for deployer funding
+const MAX_CHECKED_BUYERS = 25
+const MAX_TRANSACTIONS = 100
+// Pools probed for the first liquidity add, deepest first
+const MAX_POOLS = 3
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+const topicAddress = (topic: string | undefined) => getAddress(`0x${(topic ?? "").slice(-40)}`)
+const padAddress = (address: string) => pad(address.toLowerCase() as `0x${string}`)
+
+// The earliest token transfer into any of the pools is the liquidity add
+async function findLiquidityAdd({ logProvider }: Providers, token: string, pools: string[]) {
+  const firstTransfers = await Promise.all(
+    pools.map(async (pool) => {
+      const logs = await logProvider.getLogs(token, TRANSFER_TOPIC, { topic2: padAddress(pool), limit: 1 })
+      return logs[0] ? { pool, log: logs[0] } : null
+    }),
+  )
+  return (
+    firstTransfers
+      .filter((entry): entry is { pool: string; log: LogEntry } => entry !== null)
+      .sort((a, b) => a.log.blockNumber - b.log.blockNumber)[0] ?? null
+  )
+}
+
+// Replays the first LAUNCH_BLOCKS blocks after liquidity was added: every token transfer out of
+// the pool is a buy. Buys in the liquidity-add block itself, or several buys in one transaction,
+// can only come from a bundle; buyers funded by the deployer are insiders.
+export async function analyzeLaunch(
+  providers: Providers,
+  chain: ChainConfig,
+  token: string,
+  liquidity: LiquidityAnalysis,
+  deployer: string | null,
+  fundedWallets: string[],
+): Promise<LaunchAnalysis> {
+  const pools = [...liquidity.pools]
+    .sort((a, b) => (b.liquidityUsd ?? 0) - (a.liquidityUsd ?? 0))
+    .map((pool) => pool.address)
+  if (pools.length === 0) return getDefaultLaunchAnalysis()
+
+  const added = await findLiquidityAdd(providers, token, pools.slice(0, MAX_POOLS))
+  if (!added) return getDefaultLaunchAnalysis()
+  const { pool, log } = added
+
+  const [transfers, totalSupply] = await Promise.all([
+    providers.logProvider.getLogs(token, TRANSFER_TOPIC, {
+      topic1: padAddress(pool),
+      fromBlock: log.blockNumber,
+      toBlock: log.blockNumber + LAUNCH_BLOCKS,
+    }),
+    providers.contractReader.readContract({ address: token, abi: erc20Abi, functionName: "totalSupply" }),
+  ])
+  const supply = (totalSupply as bigint | null) ?? BigInt(0)
+  if (supply === BigInt(0)) return getDefaultLaunchAnalysis()
+
+  // Transfers to the token itself are swap taxes, and to other pools are arbitrage, not buys
+  const outflows = transfers
+    .map((transfer) => ({ ...transfer, buyer: topicAddress(transfer.topics[2]) }))
+    .filter(({ buyer }) => !sameAddress(buyer, token) && !pools.some((address) => sameAddress(address, buyer)))
+  const buyersPerTransaction = new Map<string, Set<string>>()
+  for (const { transactionHash, buyer } of outflows) {
+    buyersPerTransaction.set(transactionHash, (buyersPerTransaction.get(transactionHash) ?? new Set()).add(buyer))
+  }
+
+  // Four decimals of a percent is plenty and keeps the division in bigint
+  const percentage = (data: string) => Number((BigInt(data === "0x" ? 0 : data) * BigInt(1000000)) / supply) / 10000
+  const buys = outflows.map((transfer) => ({
+    buyer: transfer.buyer,
+    transactionHash: transfer.transactionHash,
+    blockNumber: transfer.blockNumber,
+    blockOffset: transfer.blockNumber - log.blockNumber,
+    percentage: percentage(transfer.data),
+    bundled: transfer.blockNumber === log.blockNumber || buyersPerTransaction.get(transfer.transactionHash)!.size > 1,
+  }))
+
+  // Largest buyers first; each one's history tells who funded it and which router its buy went through
+  const totals = new Map<string, number>()
+  buys.forEach((buy) => totals.set(buy.buyer, (totals.get(buy.buyer) ?? 0) + buy.percentage))
+  const checked = [...totals.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_CHECKED_BUYERS)
+    .map(([buyer]) => buyer)
+  const histories = new Map(
+    await Promise.all(
+      checked.map(async (buyer) => {
+        try {
+          return [buyer, await providers.accountProvider.getTransactions(buyer, MAX_TRANSACTIONS)] as const
+        } catch (error) {
+          console.error(`Error reading transactions of launch buyer ${buyer}:`, error)
+          return [buyer, null] as const
+        }
+      }),
+    ),
+  )
+
+  const isInsider = (buyer: string) => {
+    if (deployer && sameAddress(deployer, buyer)) return true
+    if (fundedWallets.some((wallet) => sameAddress(wallet, buyer))) return true
+    return (
+      !!deployer &&
+      (histories.get(buyer) ?? []).some(
+        (tx) => !tx.isError && sameAddress(tx.from, deployer) && tx.to && sameAddress(tx.to, buyer) && tx.value > BigInt(0),
+      )
+    )
+  }
+  // The bot router is either the recipient of the pool's transfer or the target of the buy transaction
+  const findSniperBot = (buyer: string, transactionHash: string) => {
+    const recipient = findLabel(chain.id, buyer)
+    if (recipient?.kind === "sniper") return recipient.name
+    const tx = histories.get(buyer)?.find((entry) => sameAddress(entry.hash, transactionHash))
+    const router = tx?.to ? findLabel(chain.id, tx.to) : null
+    return router?.kind === "sniper" ? router.name : null
+  }
+
+  const launchBuys: LaunchBuy[] = buys.map((buy) => ({
+    ...buy,
+    insider: isInsider(buy.buyer),
+    sniperBot: findSniperBot(buy.buyer, buy.transactionHash),
+  }))
+  const sum = (selected: LaunchBuy[]) => selected.reduce((total, buy) => total + buy.percentage, 0)
+
+  return {
+    pool,
+    liquidityAddedBlock: log.blockNumber,
+    liquidityAddedTimestamp: log.timestamp,
+    windowBlocks: LAUNCH_BLOCKS,
+    buys: launchBuys,
+    launchPercentage: sum(launchBuys),
+    bundledPercentage: sum(launchBuys.filter((buy) => buy.bundled)),
+    insiderPercentage: sum(launchBuys.filter((buy) => buy.insider)),
+    sniperPercentage: sum(launchBuys.filter((buy) => buy.sniperBot !== null)),
+    buyersChecked: checked.length,
+  }
+}
+
+export function getDefaultLaunchAnalysis(): LaunchAnalysis {
+  return {
+    pool: null,
+    liquidityAddedBlock: null,
+    liquidityAddedTimestamp: null,
+    windowBlocks: LAUNCH_BLOCKS,
+    buys: [],
+    launchPercentage: 0,
+    bundledPercentage: 0,
+    insiderPercentage: 0,
+    sniperPercentage: 0,
+    buyersChecked: 0,
+  }
+}
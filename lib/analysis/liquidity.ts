@@ -0,0 +1,239 @@
+import { erc20Abi, formatUnits, zeroAddress } from "viem"
+import { uniswapV2FactoryAbi, uniswapV2PairAbi, uniswapV3FactoryAbi } from "@/lib/abis"
+import type { ChainConfig, DexConfig } from "@/lib/chains"
+import type { ContractCall, ContractReader } from "@/lib/providers"
+
+export interface LiquidityPool {
+  dex: string
+  version: "v2" | "v3"
+  address: string
+  quoteToken: string
+  quoteSymbol: string
+  // V3 fee tier in hundredths of a basis point, null for V2 pairs
+  fee: number | null
+  // Token and quote amounts held by the pool, in whole units
+  tokenReserve: number
+  quoteReserve: number
+  // null when the quote token could not be priced
+  liquidityUsd: number | null
+}
+
+export interface LiquidityAnalysis {
+  pools: LiquidityPool[]
+  // Sum over the pools that could be valued
+  totalLiquidityUsd: number
+  // Whether every pool could be valued; otherwise totalLiquidityUsd is only a lower bound
+  fullyValued: boolean
+  // Pool with the most USD liquidity
+  mainPool: LiquidityPool | null
+  nativePriceUsd: number | null
+  tokenPriceUsd: number | null
+  // Filled in by the route once market data is available
+  liquidityToMarketCap: number | null
+}
+
+interface PoolCandidate {
+  dex: DexConfig
+  quote: string
+  fee: number | null
+  call: ContractCall
+}
+
+interface PoolReserves {
+  dex: DexConfig
+  address: string
+  quote: string
+  fee: number | null
+  tokenReserve: bigint
+  quoteReserve: bigint
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+// Asks every configured factory for a pool of the token against wrapped native and each
+// stablecoin, on every fee tier for V3-style factories.
+async function discoverPools(contractReader: ContractReader, chain: ChainConfig, token: string) {
+  const quotes = [chain.wrappedNative, ...chain.stablecoins].filter((quote) => !sameAddress(quote, token))
+  const candidates: PoolCandidate[] = chain.dexes.flatMap((dex) =>
+    quotes.flatMap((quote): PoolCandidate[] =>
+      dex.version === "v2"
+        ? [
+            {
+              dex,
+              quote,
+              fee: null,
+              call: { address: dex.factory, abi: uniswapV2FactoryAbi, functionName: "getPair", args: [token, quote] },
+            },
+          ]
+        : (dex.feeTiers ?? []).map((fee) => ({
+            dex,
+            quote,
+            fee,
+            call: { address: dex.factory, abi: uniswapV3FactoryAbi, functionName: "getPool", args: [token, quote, fee] },
+          })),
+    ),
+  )
+
+  const addresses = await contractReader.readContracts(candidates.map((candidate) => candidate.call))
+  return candidates
+    .map((candidate, index) => ({ ...candidate, address: addresses[index] as string | null }))
+    .filter((pool): pool is PoolCandidate & { address: string } => !!pool.address && pool.address !== zeroAddress)
+}
+
+// V2 pairs report their reserves directly; V3 pools hold whatever their positions put in, so
+// their token balances are used instead.
+async function readReserves(
+  contractReader: ContractReader,
+  chain: ChainConfig,
+  token: string,
+): Promise<PoolReserves[]> {
+  const pools = await discoverPools(contractReader, chain, token)
+  const results = await contractReader.readContracts(
+    pools.flatMap(({ dex, address, quote }): ContractCall[] =>
+      dex.version === "v2"
+        ? [
+            { address, abi: uniswapV2PairAbi, functionName: "token0" },
+            { address, abi: uniswapV2PairAbi, functionName: "getReserves" },
+          ]
+        : [
+            { address: token, abi: erc20Abi, functionName: "balanceOf", args: [address] },
+            { address: quote, abi: erc20Abi, functionName: "balanceOf", args: [address] },
+          ],
+    ),
+  )
+
+  return pools.flatMap(({ dex, address, quote, fee }, index) => {
+    const first = results[index * 2]
+    const second = results[index * 2 + 1]
+    if (first === null || second === null) return []
+
+    if (dex.version === "v3") {
+      return [{ dex, address, quote, fee, tokenReserve: first as bigint, quoteReserve: second as bigint }]
+    }
+    const [reserve0, reserve1] = second as readonly [bigint, bigint, number]
+    const tokenIsToken0 = sameAddress(first as string, token)
+    return [
+      {
+        dex,
+        address,
+        quote,
+        fee,
+        tokenReserve: tokenIsToken0 ? reserve0 : reserve1,
+        quoteReserve: tokenIsToken0 ? reserve1 : reserve0,
+      },
+    ]
+  })
+}
+
+// USD price of one token from the deepest V2 pair; V3 balances say nothing about price
+function priceFromV2(pools: Array<{ version: "v2" | "v3"; tokenReserve: number; quoteValueUsd: number | null }>) {
+  const deepest = pools
+    .filter((pool) => pool.version === "v2" && pool.tokenReserve > 0 && pool.quoteValueUsd !== null)
+    .sort((a, b) => b.quoteValueUsd! - a.quoteValueUsd!)[0]
+  return deepest ? deepest.quoteValueUsd! / deepest.tokenReserve : null
+}
+
+// USD price of the native token from its V2 pairs against the chain's stablecoins
+async function getNativePriceUsd(contractReader: ContractReader, chain: ChainConfig): Promise<number | null> {
+  const pools = (await readReserves(contractReader, chain, chain.wrappedNative)).filter(({ quote }) =>
+    chain.stablecoins.some((stablecoin) => sameAddress(stablecoin, quote)),
+  )
+  if (pools.length === 0) return null
+
+  const decimals = await contractReader.readContracts(
+    pools.map(({ quote }) => ({ address: quote, abi: erc20Abi, functionName: "decimals" })),
+  )
+  return priceFromV2(
+    pools.map((pool, index) => ({
+      version: pool.dex.version,
+      tokenReserve: Number(formatUnits(pool.tokenReserve, 18)),
+      quoteValueUsd: Number(formatUnits(pool.quoteReserve, Number(decimals[index] ?? 18))),
+    })),
+  )
+}
+
+// Finds the token's pools on every configured DEX and values them in USD. Stablecoins count as
+// $1 and wrapped native is priced from its own stablecoin pairs, so no price API is needed.
+export async function analyzeLiquidity(
+  contractReader: ContractReader,
+  chain: ChainConfig,
+  token: string,
+): Promise<LiquidityAnalysis> {
+  const [reserves, nativePriceUsd] = await Promise.all([
+    readReserves(contractReader, chain, token),
+    getNativePriceUsd(contractReader, chain),
+  ])
+  if (reserves.length === 0) return { ...getDefaultLiquidityAnalysis(), nativePriceUsd }
+
+  const quotes = [...new Set(reserves.map(({ quote }) => quote))]
+  const metadata = await contractReader.readContracts([
+    { address: token, abi: erc20Abi, functionName: "decimals" },
+    ...quotes.flatMap((quote) => [
+      { address: quote, abi: erc20Abi, functionName: "decimals" },
+      { address: quote, abi: erc20Abi, functionName: "symbol" },
+    ]),
+  ])
+  const tokenDecimals = Number(metadata[0] ?? 18)
+  const quoteInfo = new Map(
+    quotes.map((quote, index) => [
+      quote,
+      {
+        decimals: Number(metadata[1 + index * 2] ?? 18),
+        symbol: (metadata[2 + index * 2] as string | null) ?? "?",
+        priceUsd: sameAddress(quote, chain.wrappedNative) ? nativePriceUsd : 1,
+      },
+    ]),
+  )
+
+  const pools: LiquidityPool[] = reserves.map(({ dex, address, quote, fee, tokenReserve, quoteReserve }) => {
+    const info = quoteInfo.get(quote)!
+    return {
+      dex: dex.name,
+      version: dex.version,
+      address,
+      quoteToken: quote,
+      quoteSymbol: info.symbol,
+      fee,
+      tokenReserve: Number(formatUnits(tokenReserve, tokenDecimals)),
+      quoteReserve: Number(formatUnits(quoteReserve, info.decimals)),
+      liquidityUsd: null,
+    }
+  })
+
+  const quoteValues = pools.map((pool) => {
+    const quotePriceUsd = quoteInfo.get(pool.quoteToken)!.priceUsd
+    return quotePriceUsd === null ? null : pool.quoteReserve * quotePriceUsd
+  })
+  const tokenPriceUsd = priceFromV2(pools.map((pool, index) => ({ ...pool, quoteValueUsd: quoteValues[index] })))
+
+  pools.forEach((pool, index) => {
+    const quoteValue = quoteValues[index]
+    if (quoteValue === null) return
+    // A V2 pair holds equal value on both sides; a V3 pool's token side is valued at the market price
+    pool.liquidityUsd =
+      pool.version === "v2" ? quoteValue * 2 : quoteValue + (tokenPriceUsd !== null ? pool.tokenReserve * tokenPriceUsd : 0)
+  })
+
+  const sorted = pools.sort((a, b) => (b.liquidityUsd ?? 0) - (a.liquidityUsd ?? 0))
+  return {
+    pools: sorted,
+    totalLiquidityUsd: sorted.reduce((sum, pool) => sum + (pool.liquidityUsd ?? 0), 0),
+    fullyValued: sorted.every((pool) => pool.liquidityUsd !== null),
+    mainPool: sorted[0],
+    nativePriceUsd,
+    tokenPriceUsd,
+    liquidityToMarketCap: null,
+  }
+}
+
+export function getDefaultLiquidityAnalysis(): LiquidityAnalysis {
+  return {
+    pools: [],
+    totalLiquidityUsd: 0,
+    fullyValued: true,
+    mainPool: null,
+    nativePriceUsd: null,
+    tokenPriceUsd: null,
+    liquidityToMarketCap: null,
+  }
+}
@@ -0,0 +1,255 @@
+import { erc20Abi } from "viem"
+import { pinkLockAbi, teamFinanceLockerAbi, unicryptLockerAbi } from "@/lib/abis"
+import type { ChainConfig } from "@/lib/chains"
+import type { ContractReader, Providers } from "@/lib/providers"
+import { findLocker, isBurnAddress, type Locker } from "@/lib/registry/lockers"
+import type { LiquidityAnalysis, LiquidityPool } from "./liquidity"
+
+export type LpHolderClass = "burned" | "locked" | "deployer" | "eoa" | "contract"
+
+export interface LpHolder {
+  address: string
+  percentage: number
+  class: LpHolderClass
+  // Locker name for class "locked"
+  locker: string | null
+}
+
+export interface LpLock {
+  locker: string
+  owner: string
+  percentage: number
+  // Unix seconds
+  unlockTime: number
+}
+
+export interface PoolLpAnalysis {
+  dex: string
+  pool: string
+  liquidityUsd: number | null
+  holders: LpHolder[]
+  percentageLocked: number
+  percentageBurned: number
+  deployerPercentage: number
+  // Largest share of LP an externally owned account can withdraw right now
+  largestUnlockedEoa: { address: string; percentage: number; isDeployer: boolean } | null
+  locks: LpLock[]
+}
+
+export interface LpLockAnalysis {
+  deployer: string | null
+  pools: PoolLpAnalysis[]
+  // Averages across the analyzed pools, weighted by their USD liquidity
+  percentageLocked: number
+  percentageBurned: number
+  deployerPercentage: number
+  // Unix seconds of the first lock to expire, null when nothing is locked
+  earliestUnlock: number | null
+}
+
+// LP holder lists cost an explorer call each, so only the deepest pairs are checked
+const MAX_POOLS = 3
+const MAX_LP_HOLDERS = 50
+const MAX_LOCKS_PER_TOKEN = 20
+
+// Reads the locks a locker holds for one LP token. Amounts are raw LP units.
+async function readLocks(contractReader: ContractReader, locker: Locker, lpToken: string) {
+  const range = (count: unknown) => [...Array(Math.min(Number(count ?? 0), MAX_LOCKS_PER_TOKEN)).keys()]
+
+  if (locker.kind === "unicrypt") {
+    const count = await contractReader.readContract({
+      address: locker.address,
+      abi: unicryptLockerAbi,
+      functionName: "getNumLocksForToken",
+      args: [lpToken],
+    })
+    const locks = await contractReader.readContracts(
+      range(count).map((index) => ({
+        address: locker.address,
+        abi: unicryptLockerAbi,
+        functionName: "tokenLocks",
+        args: [lpToken, BigInt(index)],
+      })),
+    )
+    return locks
+      .filter((lock): lock is readonly [bigint, bigint, bigint, bigint, bigint, string] => lock !== null)
+      .map(([, amount, , unlockDate, , owner]) => ({ owner, amount, unlockTime: Number(unlockDate) }))
+  }
+
+  if (locker.kind === "teamfinance") {
+    const ids = (await contractReader.readContract({
+      address: locker.address,
+      abi: teamFinanceLockerAbi,
+      functionName: "getDepositsByTokenAddress",
+      args: [lpToken],
+    })) as readonly bigint[] | null
+    const deposits = await contractReader.readContracts(
+      (ids ?? []).slice(-MAX_LOCKS_PER_TOKEN).map((id) => ({
+        address: locker.address,
+        abi: teamFinanceLockerAbi,
+        functionName: "lockedToken",
+        args: [id],
+      })),
+    )
+    return deposits
+      .filter((deposit): deposit is readonly [string, string, bigint, bigint, boolean] => deposit !== null)
+      .filter(([, , , , withdrawn]) => !withdrawn)
+      .map(([, owner, amount, unlockTime]) => ({ owner, amount, unlockTime: Number(unlockTime) }))
+  }
+
+  const count = await contractReader.readContract({
+    address: locker.address,
+    abi: pinkLockAbi,
+    functionName: "totalLockCountForToken",
+    args: [lpToken],
+  })
+  const indices = range(count)
+  if (indices.length === 0) return []
+  const locks = (await contractReader.readContract({
+    address: locker.address,
+    abi: pinkLockAbi,
+    functionName: "getLocksForToken",
+    args: [lpToken, BigInt(0), BigInt(indices.length - 1)],
+  })) as ReadonlyArray<{ owner: string; amount: bigint; unlockedAmount: bigint; tgeDate: bigint }> | null
+  // Vesting locks release from tgeDate onwards, so that is the first date LP can leave
+  return (locks ?? []).map((lock) => ({
+    owner: lock.owner,
+    amount: lock.amount - lock.unlockedAmount,
+    unlockTime: Number(lock.tgeDate),
+  }))
+}
+
+async function analyzePool(
+  { contractReader, holderProvider }: Providers,
+  chain: ChainConfig,
+  pool: LiquidityPool,
+  deployer: string | null,
+): Promise<PoolLpAnalysis | null> {
+  const [holders, totalSupply] = await Promise.all([
+    holderProvider.getTopHolders(pool.address, MAX_LP_HOLDERS),
+    contractReader.readContract({ address: pool.address, abi: erc20Abi, functionName: "totalSupply" }),
+  ])
+  const supply = Number(totalSupply ?? 0)
+  if (!holders || holders.length === 0 || supply <= 0) return null
+
+  // Only holders that are neither burned nor in a known locker need a code lookup
+  const lockers = holders.map((holder) => findLocker(chain.id, holder.address))
+  const codes = await Promise.all(
+    holders.map((holder, index) =>
+      isBurnAddress(holder.address) || lockers[index] ? "0x" : contractReader.getCode(holder.address),
+    ),
+  )
+
+  const classified: LpHolder[] = holders.map((holder, index) => {
+    const locker = lockers[index]
+    let holderClass: LpHolderClass = "eoa"
+    if (isBurnAddress(holder.address)) holderClass = "burned"
+    else if (locker) holderClass = "locked"
+    else if (deployer && holder.address.toLowerCase() === deployer.toLowerCase()) holderClass = "deployer"
+    else if (codes[index] !== "0x") holderClass = "contract"
+
+    return {
+      address: holder.address,
+      percentage: (holder.balance / supply) * 100,
+      class: holderClass,
+      locker: locker?.name ?? null,
+    }
+  })
+
+  const usedLockers = [...new Set(lockers.filter((locker): locker is Locker => locker !== null))]
+  const lockEntries = await Promise.all(
+    usedLockers.map(async (locker) => {
+      try {
+        const locks = await readLocks(contractReader, locker, pool.address)
+        return locks
+          .filter((lock) => lock.amount > BigInt(0))
+          .map((lock) => ({
+            locker: locker.name,
+            owner: lock.owner,
+            percentage: (Number(lock.amount) / supply) * 100,
+            unlockTime: lock.unlockTime,
+          }))
+      } catch (error) {
+        console.error(`Error reading ${locker.name} locks:`, error)
+        return []
+      }
+    }),
+  )
+
+  const sum = (holderClass: LpHolderClass) =>
+    classified.filter((holder) => holder.class === holderClass).reduce((total, holder) => total + holder.percentage, 0)
+  const withdrawable = classified
+    .filter((holder) => holder.class === "eoa" || holder.class === "deployer")
+    .sort((a, b) => b.percentage - a.percentage)[0]
+
+  return {
+    dex: pool.dex,
+    pool: pool.address,
+    liquidityUsd: pool.liquidityUsd,
+    holders: classified,
+    percentageLocked: sum("locked"),
+    percentageBurned: sum("burned"),
+    deployerPercentage: sum("deployer"),
+    largestUnlockedEoa: withdrawable
+      ? {
+          address: withdrawable.address,
+          percentage: withdrawable.percentage,
+          isDeployer: withdrawable.class === "deployer",
+        }
+      : null,
+    locks: lockEntries.flat().sort((a, b) => a.unlockTime - b.unlockTime),
+  }
+}
+
+// Classifies who holds the LP tokens of the token's V2 pairs: burned, locked in a known locker,
+// the deployer, other EOAs or contracts. V3 positions are NFTs and are not covered.
+export async function analyzeLpLocks(
+  providers: Providers,
+  chain: ChainConfig,
+  token: string,
+  liquidity: LiquidityAnalysis,
+  deployer: string | null,
+): Promise<LpLockAnalysis> {
+  const candidates = liquidity.pools.filter((pool) => pool.version === "v2").slice(0, MAX_POOLS)
+
+  const results = await Promise.all(
+    candidates.map((pool) =>
+      analyzePool(providers, chain, pool, deployer).catch((error) => {
+        console.error(`Error analyzing LP holders of ${pool.address}:`, error)
+        return null
+      }),
+    ),
+  )
+  const pools = results.filter((pool): pool is PoolLpAnalysis => pool !== null)
+
+  // Weight by USD liquidity; fall back to a plain average when no pool could be priced
+  const weights = pools.map((pool) => pool.liquidityUsd ?? 0)
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+  const average = (value: (pool: PoolLpAnalysis) => number) => {
+    if (pools.length === 0) return 0
+    if (totalWeight === 0) return pools.reduce((sum, pool) => sum + value(pool), 0) / pools.length
+    return pools.reduce((sum, pool, index) => sum + value(pool) * weights[index], 0) / totalWeight
+  }
+
+  const unlockTimes = pools.flatMap((pool) => pool.locks.map((lock) => lock.unlockTime))
+
+  return {
+    deployer,
+    pools,
+    percentageLocked: average((pool) => pool.percentageLocked),
+    percentageBurned: average((pool) => pool.percentageBurned),
+    deployerPercentage: average((pool) => pool.deployerPercentage),
+    earliestUnlock: unlockTimes.length > 0 ? Math.min(...unlockTimes) : null,
+  }
+}
+
+export function getDefaultLpLockAnalysis(): LpLockAnalysis {
+  return {
+    deployer: null,
+    pools: [],
+    percentageLocked: 0,
+    percentageBurned: 0,
+    deployerPercentage: 0,
+    earliestUnlock: null,
+  }
+}
@@ -0,0 +1,152 @@
+import { keccak256, toBytes, zeroAddress, zeroHash } from "viem"
+import { accessControlEnumerableAbi, ownableAbi, safeAbi, timelockAbi } from "@/lib/abis"
+import type { ContractReader } from "@/lib/providers"
+
+export type ControllerType = "renounced" | "eoa" | "safe" | "timelock" | "contract" | "none"
+
+export interface ControllerInfo {
+  type: ControllerType
+  // Gnosis Safe signer set
+  safe: { threshold: number; owners: string[] } | null
+  // Timelock minimum delay in seconds
+  timelockDelay: number | null
+}
+
+export interface RoleMembers {
+  role: string
+  members: string[]
+}
+
+export interface OwnershipAnalysis extends ControllerInfo {
+  // Address that can call privileged functions, null when the contract has no owner or admin
+  controller: string | null
+  // Where the controller was read from, e.g. "owner()" or "DEFAULT_ADMIN_ROLE"
+  controllerSource: string | null
+  // Ownable2Step owner-elect, null when no transfer is pending
+  pendingOwner: string | null
+  roles: RoleMembers[]
+}
+
+const OWNER_FUNCTIONS = ["owner", "getOwner", "admin"] as const
+
+const ROLES = ["DEFAULT_ADMIN_ROLE", "MINTER_ROLE", "PAUSER_ROLE", "UPGRADER_ROLE"]
+const MAX_ROLE_MEMBERS = 10
+
+const roleId = (role: string) => (role === "DEFAULT_ADMIN_ROLE" ? zeroHash : keccak256(toBytes(role)))
+
+// Tells an EOA from a Gnosis Safe, a timelock or any other contract by probing their interfaces
+export async function classifyController(contractReader: ContractReader, address: string): Promise<ControllerInfo> {
+  if (address.toLowerCase() === zeroAddress) return { type: "renounced", safe: null, timelockDelay: null }
+
+  const code = await contractReader.getCode(address)
+  if (code === "0x") return { type: "eoa", safe: null, timelockDelay: null }
+
+  const [threshold, owners, minDelay, delay] = await contractReader.readContracts([
+    { address, abi: safeAbi, functionName: "getThreshold" },
+    { address, abi: safeAbi, functionName: "getOwners" },
+    { address, abi: timelockAbi, functionName: "getMinDelay" },
+    { address, abi: timelockAbi, functionName: "delay" },
+  ])
+
+  if (threshold !== null && Array.isArray(owners)) {
+    return { type: "safe", safe: { threshold: Number(threshold), owners: owners as string[] }, timelockDelay: null }
+  }
+  const timelockDelay = minDelay ?? delay
+  if (timelockDelay !== null) return { type: "timelock", safe: null, timelockDelay: Number(timelockDelay) }
+
+  return { type: "contract", safe: null, timelockDelay: null }
+}
+
+async function readRoleMembers(contractReader: ContractReader, contractAddress: string): Promise<RoleMembers[]> {
+  const counts = await contractReader.readContracts(
+    ROLES.map((role) => ({
+      address: contractAddress,
+      abi: accessControlEnumerableAbi,
+      functionName: "getRoleMemberCount",
+      args: [roleId(role)],
+    })),
+  )
+
+  return Promise.all(
+    ROLES.flatMap((role, index) => {
+      const count = Math.min(Number(counts[index] ?? 0), MAX_ROLE_MEMBERS)
+      if (count === 0) return []
+      return [
+        contractReader
+          .readContracts(
+            [...Array(count).keys()].map((member) => ({
+              address: contractAddress,
+              abi: accessControlEnumerableAbi,
+              functionName: "getRoleMember",
+              args: [roleId(role), BigInt(member)],
+            })),
+          )
+          .then((members) => ({
+            role,
+            members: members.filter((member): member is string => typeof member === "string"),
+          })),
+      ]
+    }),
+  )
+}
+
+// Resolves who actually controls the contract right now: owner()/getOwner()/admin(), falling back
+// to AccessControl admins, then classifies that address.
+export async function resolveOwnership(
+  contractReader: ContractReader,
+  contractAddress: string,
+): Promise<OwnershipAnalysis> {
+  const [ownerResults, roles] = await Promise.all([
+    contractReader.readContracts(
+      [...OWNER_FUNCTIONS, "pendingOwner" as const].map((functionName) => ({
+        address: contractAddress,
+        abi: ownableAbi,
+        functionName,
+      })),
+    ),
+    readRoleMembers(contractReader, contractAddress),
+  ])
+
+  const owners = OWNER_FUNCTIONS.map((functionName, index) => ({
+    source: `${functionName}()`,
+    address: ownerResults[index] as string | null,
+  })).filter((owner): owner is { source: string; address: string } => typeof owner.address === "string")
+  const pending = ownerResults[OWNER_FUNCTIONS.length] as string | null
+  const pendingOwner = pending && pending !== zeroAddress ? pending : null
+  const admins = roles.find((role) => role.role === "DEFAULT_ADMIN_ROLE")?.members ?? []
+
+  // A live owner wins over role admins. A zeroed owner only counts as renounced when no admin
+  // remains and nobody can still accept a pending transfer.
+  let controller = owners.find((owner) => owner.address !== zeroAddress) ?? null
+  if (!controller && admins.length > 0) controller = { source: "DEFAULT_ADMIN_ROLE", address: admins[0] }
+  if (!controller && pendingOwner) controller = { source: "pendingOwner()", address: pendingOwner }
+  if (!controller) controller = owners[0] ?? null
+
+  if (!controller) {
+    return {
+      ...getDefaultOwnershipAnalysis(),
+      pendingOwner,
+      roles,
+    }
+  }
+
+  return {
+    ...(await classifyController(contractReader, controller.address)),
+    controller: controller.address,
+    controllerSource: controller.source,
+    pendingOwner,
+    roles,
+  }
+}
+
+export function getDefaultOwnershipAnalysis(): OwnershipAnalysis {
+  return {
+    type: "none",
+    safe: null,
+    timelockDelay: null,
+    controller: null,
+    controllerSource: null,
+    pendingOwner: null,
+    roles: [],
+  }
+}
@@ -0,0 +1,20 @@
+import type { Capability, PrivilegeCategory } from "./types"
+
+const CAPABILITY_CATEGORIES: Record<Capability, PrivilegeCategory> = {
+  mint: "supply",
+  fee: "fees",
+  pause: "transferGating",
+  blacklist: "transferGating",
+  tradingRestriction: "transferGating",
+  proxy: "upgrade",
+  balanceManipulation: "supply",
+}
+
+// Most severe first; a function that does several things is listed under the worst of them
+const SEVERITY: PrivilegeCategory[] = ["upgrade", "supply", "withdrawal", "transferGating", "fees", "cosmetic"]
+
+export function categorize(capabilities: Capability[], sendsFunds: boolean): PrivilegeCategory {
+  const categories = new Set(capabilities.map((capability) => CAPABILITY_CATEGORIES[capability]))
+  if (sendsFunds) categories.add("withdrawal")
+  return SEVERITY.find((category) => categories.has(category)) ?? "cosmetic"
+}
@@ -0,0 +1,114 @@
+import { getAddress, hexToBigInt, keccak256, toBytes, toHex, zeroAddress } from "viem"
+import { beaconAbi, proxiableAbi } from "@/lib/abis"
+import type { ContractReader } from "@/lib/providers"
+import { classifyController, resolveOwnership, type OwnershipAnalysis } from "./ownership"
+
+export type ProxyType = "transparent" | "uups" | "eip1967" | "beacon" | "eip1822" | "zeppelinos"
+
+export interface ProxyResolution {
+  type: ProxyType
+  implementation: string
+  // Admin slot of transparent and ZeppelinOS proxies, the only account allowed to upgrade them
+  admin: string | null
+  beacon: string | null
+}
+
+// EIP-1967 slots are keccak256(label) - 1 so they have no known preimage
+const eip1967Slot = (label: string) => toHex(hexToBigInt(keccak256(toBytes(label))) - BigInt(1), { size: 32 })
+
+const SLOTS = {
+  implementation: eip1967Slot("eip1967.proxy.implementation"),
+  admin: eip1967Slot("eip1967.proxy.admin"),
+  beacon: eip1967Slot("eip1967.proxy.beacon"),
+  // EIP-1822 (original UUPS)
+  proxiable: keccak256(toBytes("PROXIABLE")),
+  // Pre-1967 OpenZeppelin (ZeppelinOS) upgradeability proxies
+  zeppelinosImplementation: keccak256(toBytes("org.zeppelinos.proxy.implementation")),
+  zeppelinosAdmin: keccak256(toBytes("org.zeppelinos.proxy.admin")),
+}
+
+// The address stored in the low 20 bytes of a slot, null when the slot is empty
+function slotAddress(value: string): string | null {
+  const address = getAddress(`0x${value.slice(-40)}`)
+  return address === zeroAddress ? null : address
+}
+
+// Reads the standard proxy storage slots to find where calls are forwarded and who may change it.
+// Returns null for contracts that are not proxies.
+export async function resolveProxy(contractReader: ContractReader, address: string): Promise<ProxyResolution | null> {
+  const [implementation, admin, beacon, proxiable, zeppelinosImplementation, zeppelinosAdmin] = (
+    await Promise.all(
+      [
+        SLOTS.implementation,
+        SLOTS.admin,
+        SLOTS.beacon,
+        SLOTS.proxiable,
+        SLOTS.zeppelinosImplementation,
+        SLOTS.zeppelinosAdmin,
+      ].map((slot) => contractReader.getStorageAt(address, slot)),
+    )
+  ).map(slotAddress)
+
+  if (beacon) {
+    const beaconImplementation = await contractReader.readContract({
+      address: beacon,
+      abi: beaconAbi,
+      functionName: "implementation",
+    })
+    if (typeof beaconImplementation !== "string") return null
+    return { type: "beacon", implementation: beaconImplementation, admin, beacon }
+  }
+
+  if (implementation) {
+    if (admin) return { type: "transparent", implementation, admin, beacon: null }
+    // UUPS implementations carry their own upgrade logic and identify themselves by the slot they use
+    const uuid = await contractReader.readContract({
+      address: implementation,
+      abi: proxiableAbi,
+      functionName: "proxiableUUID",
+    })
+    return { type: uuid === SLOTS.implementation ? "uups" : "eip1967", implementation, admin: null, beacon: null }
+  }
+
+  if (proxiable) return { type: "eip1822", implementation: proxiable, admin: null, beacon: null }
+
+  if (zeppelinosImplementation) {
+    return { type: "zeppelinos", implementation: zeppelinosImplementation, admin: zeppelinosAdmin, beacon: null }
+  }
+
+  return null
+}
+
+function withSource(ownership: OwnershipAnalysis, prefix: string): OwnershipAnalysis {
+  return { ...ownership, controllerSource: ownership.controllerSource && `${prefix}${ownership.controllerSource}` }
+}
+
+// Who can swap the implementation. Transparent proxies are upgraded by their admin, which is usually a
+// ProxyAdmin contract with its own owner; beacons by the beacon's owner; UUPS and EIP-1822 proxies
+// by whatever the implementation's upgrade function checks, normally the proxy's own owner.
+export async function resolveUpgradeController(
+  contractReader: ContractReader,
+  proxy: ProxyResolution,
+  proxyOwnership: OwnershipAnalysis,
+): Promise<OwnershipAnalysis> {
+  if (proxy.beacon) {
+    return withSource(await resolveOwnership(contractReader, proxy.beacon), "beacon ")
+  }
+
+  if (proxy.admin) {
+    const admin = await classifyController(contractReader, proxy.admin)
+    if (admin.type === "contract") {
+      const adminOwnership = await resolveOwnership(contractReader, proxy.admin)
+      if (adminOwnership.controller) return withSource(adminOwnership, "proxy admin ")
+    }
+    return {
+      ...admin,
+      controller: proxy.admin,
+      controllerSource: "admin slot",
+      pendingOwner: null,
+      roles: [],
+    }
+  }
+
+  return proxyOwnership
+}
@@ -0,0 +1,193 @@
+import { erc20Abi, parseAbi, toFunctionSelector } from "viem"
+import type { Providers } from "@/lib/providers"
+import { analyzeBytecode } from "./bytecode"
+import { reachable } from "./diamond"
+import type { OwnershipAnalysis } from "./ownership"
+import { restrictionKind, type RestrictionKind } from "./solidity"
+import type { LogicContract, SecurityFinding } from "./types"
+
+export interface TradingRestriction {
+  kind: RestrictionKind
+  // Getter the setting was read from, e.g. "maxTransactionAmount"
+  getter: string
+  // Current setting: a switch, or a raw token amount / number of seconds as a decimal string;
+  // null when it could not be read
+  value: boolean | string | null
+  // Max-tx and max-wallet amounts as a share of total supply
+  percentage: number | null
+}
+
+export interface RestrictionSetter {
+  function: string
+  modifiers: string[]
+  // null when read from bytecode
+  guarded: boolean | null
+  // Empty when the setter's name does not tell what it restricts
+  kinds: RestrictionKind[]
+  // Whether the setter can stop all trading (a limit of zero, trading switched off, an unbounded
+  // cooldown); null when it cannot be told from bytecode
+  blocking: boolean | null
+}
+
+export interface TradingRestrictionAnalysis {
+  restrictions: TradingRestriction[]
+  setters: RestrictionSetter[]
+  // The trading switch as currently set; null when the contract has none or it could not be read
+  tradingEnabled: boolean | null
+  // Whether a setter the owner or anyone can call can stop all trading
+  canBlockTrading: boolean
+  // Who can call the setters, null when there are none
+  changeableBy: "anyone" | "owner" | "nobody" | null
+  analysisMethod: "source" | "bytecode" | "none"
+}
+
+// Common restriction getters looked for in unverified bytecode
+const RESTRICTION_GETTERS = [
+  "maxTxAmount",
+  "_maxTxAmount",
+  "maxTransactionAmount",
+  "maxWallet",
+  "maxWalletSize",
+  "_maxWalletSize",
+  "maxWalletAmount",
+  "tradingOpen",
+  "tradingEnabled",
+  "tradingActive",
+  "cooldownEnabled",
+]
+
+const isSwitch = (getter: string, kind: RestrictionKind) => kind === "tradingEnabled" || /enabled/i.test(getter)
+
+interface RestrictionGetter {
+  name: string
+  kind: RestrictionKind
+  isSwitch: boolean
+}
+
+// Restriction getters and setters one contract's code exposes, limited to what the diamond routes for facets
+async function contractRestrictions(
+  { contractReader }: Providers,
+  contract: LogicContract,
+  findings: SecurityFinding[],
+): Promise<{ getters: RestrictionGetter[]; setters: RestrictionSetter[] }> {
+  const routedGetters = (getters: RestrictionGetter[]) =>
+    reachable(getters.map((getter) => ({ ...getter, function: `${getter.name}()` })), contract)
+
+  const sourceRestrictions = contract.source?.restrictions ?? null
+  if (sourceRestrictions) {
+    return {
+      getters: routedGetters(
+        sourceRestrictions.variables
+          .filter((variable) => variable.public)
+          .map((variable) => ({ name: variable.name, kind: variable.kind, isSwitch: variable.type === "bool" })),
+      ),
+      setters: reachable(sourceRestrictions.setters, contract).map((setter) => ({
+        function: setter.function,
+        modifiers: setter.modifiers,
+        guarded: setter.guarded,
+        kinds: setter.kinds,
+        blocking: setter.blocking,
+      })),
+    }
+  }
+
+  const code = await contractReader.getCode(contract.address)
+  const selectors = new Set(code === "0x" ? [] : analyzeBytecode(code).selectors)
+  return {
+    getters: routedGetters(
+      RESTRICTION_GETTERS.filter((name) => selectors.has(toFunctionSelector(`${name}()`))).map((name) => {
+        const kind = restrictionKind(name)!
+        return { name, kind, isSwitch: isSwitch(name, kind) }
+      }),
+    ),
+    // A diamond's findings are already routed and tagged with their facet
+    setters: findings
+      .filter((finding) => finding.capability === "tradingRestriction")
+      .filter((finding) => !contract.facet || finding.facet === contract.address)
+      .map((finding) => {
+        const kind = restrictionKind(finding.function)
+        return {
+          function: finding.function,
+          modifiers: finding.modifiers,
+          guarded: finding.guarded,
+          kinds: kind ? [kind] : [],
+          // A trading switch that takes a bool can switch trading off again
+          blocking: kind === "tradingEnabled" && finding.function.endsWith("(bool)") ? true : null,
+        }
+      }),
+  }
+}
+
+// Reads the token's max-tx, max-wallet, cooldown and trading switch settings through their public
+// getters and lists the functions that change them. Verified source tells which setters can tighten
+// a restriction until nobody can trade; for unverified code only common getter names and the
+// restriction setter findings are known.
+export async function analyzeTradingRestrictions(
+  providers: Providers,
+  token: string,
+  // Code that runs against the token's storage: the token, a proxy's implementation or diamond facets
+  contracts: LogicContract[],
+  findings: SecurityFinding[],
+  ownership: OwnershipAnalysis,
+): Promise<TradingRestrictionAnalysis> {
+  const { contractReader } = providers
+  const exposed = await Promise.all(contracts.map((contract) => contractRestrictions(providers, contract, findings)))
+  const getters = exposed.flatMap((entry) => entry.getters)
+  const setters = exposed.flatMap((entry) => entry.setters)
+
+  // Bools are ABI-encoded as a uint256 of 0 or 1, so every getter is read as one
+  const [values, totalSupply] = await Promise.all([
+    contractReader.readContracts(
+      getters.map(({ name }) => ({
+        address: token,
+        abi: parseAbi([`function ${name}() view returns (uint256)`]),
+        functionName: name,
+      })),
+    ),
+    contractReader.readContract({ address: token, abi: erc20Abi, functionName: "totalSupply" }),
+  ])
+  const supply = (totalSupply as bigint | null) ?? BigInt(0)
+
+  const restrictions: TradingRestriction[] = getters.map((getter, index) => {
+    const raw = values[index] as bigint | null
+    const limitsAmount = getter.kind === "maxTransaction" || getter.kind === "maxWallet"
+    return {
+      kind: getter.kind,
+      getter: getter.name,
+      value: raw === null ? null : getter.isSwitch ? raw !== BigInt(0) : raw.toString(),
+      // Two decimals of a percent, computed in bigint
+      percentage:
+        raw !== null && limitsAmount && supply > BigInt(0)
+          ? Number((raw * BigInt(10000)) / supply) / 100
+          : null,
+    }
+  })
+
+  let changeableBy: TradingRestrictionAnalysis["changeableBy"] = null
+  if (setters.some((setter) => setter.guarded === false)) changeableBy = "anyone"
+  else if (setters.length > 0) changeableBy = ownership.type === "renounced" ? "nobody" : "owner"
+
+  const fromSource = contracts.some((contract) => contract.source !== null)
+  const tradingSwitch = restrictions.find((restriction) => restriction.kind === "tradingEnabled" && restriction.value !== null)
+
+  return {
+    restrictions,
+    setters,
+    tradingEnabled: tradingSwitch ? tradingSwitch.value === true : null,
+    canBlockTrading:
+      setters.some((setter) => setter.blocking === true && (setter.guarded === false || changeableBy === "owner")),
+    changeableBy,
+    analysisMethod: fromSource ? "source" : getters.length > 0 || setters.length > 0 ? "bytecode" : "none",
+  }
+}
+
+export function getDefaultTradingRestrictionAnalysis(): TradingRestrictionAnalysis {
+  return {
+    restrictions: [],
+    setters: [],
+    tradingEnabled: null,
+    canBlockTrading: false,
+    changeableBy: null,
+    analysisMethod: "none",
+  }
+}
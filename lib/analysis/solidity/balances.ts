@@ -0,0 +1,187 @@
+import { visit } from "@solidity-parser/parser"
+import type { Expression, VariableDeclaration } from "@solidity-parser/parser/dist/src/ast-types"
+import type { SourceLocation } from "@/lib/analysis/types"
+import { identifiers } from "./conditions"
+import {
+  callerGuards,
+  entryPoints,
+  isSender,
+  stateWrites,
+  type ContractModel,
+  type FunctionInfo,
+  type StateWrite,
+} from "./model"
+
+// Per-account balance mappings, including the reflection-token _rOwned/_tOwned pair
+const BALANCE_VARIABLE = /^_?(balances|balanceOf|[rt]Owned)$/i
+// Supply counters, including the reflection-token _tTotal/_rTotal pair
+export const SUPPLY_VARIABLE = /^_?(total_?supply|[tr]Total)$/i
+const ALLOWANCE_VARIABLE = /^_?allowances?$/i
+// Token amounts reflection tokens keep only for accounts excluded from rewards, derived from _rOwned
+const REFLECTION_MIRROR = /^_?tOwned$/i
+
+// increase: adds to what is stored; decrease: subtracts from or clears it; overwrite: assigns a value
+// unrelated to the current one; both: increases and decreases along different writes, as a transfer does
+export type WriteEffect = "increase" | "decrease" | "overwrite" | "both"
+
+export interface BalanceWritePath {
+  contract: string
+  function: string
+  modifiers: string[]
+  // Checks restricting the caller; empty when anyone can call it
+  guards: string[]
+  // Balance and supply variables written
+  variables: string[]
+  // null when the path leaves them alone
+  balances: WriteEffect | null
+  supply: WriteEffect | null
+  // Takes from accounts other than the caller without spending an allowance
+  debitsOthers: boolean
+  location: SourceLocation
+}
+
+export function containsAddition(expression: Expression): boolean {
+  if (expression.type === "BinaryOperation") {
+    return expression.operator === "+" || containsAddition(expression.left) || containsAddition(expression.right)
+  }
+  // SafeMath: _totalSupply = _totalSupply.add(amount)
+  return expression.type === "FunctionCall" &&
+    expression.expression.type === "MemberAccess" &&
+    expression.expression.memberName === "add"
+}
+
+function containsSubtraction(expression: Expression): boolean {
+  if (expression.type === "BinaryOperation") {
+    return expression.operator === "-" || containsSubtraction(expression.left) || containsSubtraction(expression.right)
+  }
+  return expression.type === "FunctionCall" &&
+    expression.expression.type === "MemberAccess" &&
+    expression.expression.memberName === "sub"
+}
+
+const isZero = (expression: Expression) => expression.type === "NumberLiteral" && Number(expression.number) === 0
+
+// null for writes that move nothing, such as converting a reflection balance into tokens
+function effectOf(write: StateWrite): WriteEffect | null {
+  if (write.operator === "+=" || write.operator === "++") return "increase"
+  if (write.operator === "-=" || write.operator === "--" || write.operator === "delete") return "decrease"
+  if (write.operator !== "=" || !write.value) return "overwrite"
+
+  const value = write.value
+  // _tOwned[account] = 0 when an account rejoins rewards only drops the mirror
+  if (REFLECTION_MIRROR.test(write.variable) && isZero(value)) return null
+  if (containsAddition(value)) return "increase"
+  if (containsSubtraction(value) || isZero(value)) return "decrease"
+  if (identifiers(value).some((name) => BALANCE_VARIABLE.test(name))) return null
+  return "overwrite"
+}
+
+function combine(effects: WriteEffect[]): WriteEffect | null {
+  if (effects.length === 0) return null
+  if (effects.includes("overwrite")) return "overwrite"
+  const up = effects.includes("increase") || effects.includes("both")
+  const down = effects.includes("decrease") || effects.includes("both")
+  return up && down ? "both" : up ? "increase" : "decrease"
+}
+
+const isBalanceVariable = (model: ContractModel, name: string) =>
+  BALANCE_VARIABLE.test(name) && !!model.stateVariables.get(name)?.type.startsWith("mapping(address")
+
+// msg.sender itself, or a local holding it, as in `address sender = _msgSender()`
+function senderAliases(entry: FunctionInfo): string[] {
+  const aliases: string[] = []
+  if (!entry.node.body) return aliases
+  visit(entry.node.body, {
+    VariableDeclarationStatement: (node) => {
+      const variable = node.variables[0] as VariableDeclaration | null
+      if (node.variables.length === 1 && variable?.name && node.initialValue && isSender(node.initialValue)) {
+        aliases.push(variable.name)
+      }
+    },
+  })
+  return aliases
+}
+
+// Whether the function hands the caller to an internal function, as burn() does with _burn(_msgSender(), amount)
+function passesSender(model: ContractModel, entry: FunctionInfo): boolean {
+  let found = false
+  if (!entry.node.body) return false
+  visit(entry.node.body, {
+    FunctionCall: (node) => {
+      const callee = node.expression
+      if (callee.type !== "Identifier" || !model.allFunctions.some((fn) => fn.name === callee.name)) return
+      if (node.arguments.some(isSender)) found = true
+    },
+  })
+  return found
+}
+
+function debitsCaller(model: ContractModel, entry: FunctionInfo, debits: StateWrite[]): boolean {
+  const aliases = senderAliases(entry)
+  const isCaller = (target: Expression) =>
+    target.type === "IndexAccess" &&
+    !!target.index &&
+    (isSender(target.index) || (target.index.type === "Identifier" && aliases.includes(target.index.name)))
+  return debits.every((write) => isCaller(write.target)) || passesSender(model, entry)
+}
+
+// Every externally callable path that writes balance or supply storage, with what it does to them.
+// Constructors are left out: minting the initial supply there is expected.
+export function findBalanceWrites(model: ContractModel): BalanceWritePath[] {
+  return entryPoints(model).flatMap((entry) => {
+    const writes = stateWrites(model, entry)
+    const balanceWrites = writes.filter((write) => isBalanceVariable(model, write.variable))
+    const supplyWrites = writes.filter((write) => SUPPLY_VARIABLE.test(write.variable))
+    if (balanceWrites.length === 0 && supplyWrites.length === 0) return []
+
+    const effects = (list: StateWrite[]) =>
+      combine(list.map(effectOf).filter((effect): effect is WriteEffect => effect !== null))
+    const balances = effects(balanceWrites)
+    const supply = effects(supplyWrites)
+    if (balances === null && supply === null) return []
+
+    const debits = balanceWrites.filter((write) => effectOf(write) === "decrease")
+    const spendsAllowance = writes.some((write) => ALLOWANCE_VARIABLE.test(write.variable))
+
+    return [
+      {
+        contract: entry.contract,
+        function: entry.signature,
+        modifiers: entry.modifiers,
+        guards: callerGuards(model, entry),
+        variables: [...new Set([...balanceWrites, ...supplyWrites].map((write) => write.variable))],
+        balances,
+        supply,
+        debitsOthers: balances === "decrease" && !spendsAllowance && !debitsCaller(model, entry, debits),
+        location: entry.location,
+      },
+    ]
+  })
+}
+
+// A returned value that reads no balance storage, or a branch of one that does not
+function fabricates(expression: Expression): boolean {
+  if (expression.type === "Conditional") {
+    return fabricates(expression.trueExpression) || fabricates(expression.falseExpression)
+  }
+  if (expression.type === "TupleExpression" && expression.components.length === 1 && expression.components[0]) {
+    return fabricates(expression.components[0] as Expression)
+  }
+  // Calls (super.balanceOf(), tokenFromReflection()) are taken on trust
+  if (expression.type === "FunctionCall") return false
+  return !identifiers(expression).some((name) => BALANCE_VARIABLE.test(name))
+}
+
+// balanceOf() overridden to report amounts that are not in balance storage, e.g. a huge balance
+// for the owner or a fixed one for everybody
+export function fabricatedBalanceOf(model: ContractModel): FunctionInfo | null {
+  const balanceOf = model.functions.find((fn) => fn.name === "balanceOf" && fn.node.parameters.length === 1)
+  if (!balanceOf?.node.body) return null
+  let fabricated = false
+  visit(balanceOf.node.body, {
+    ReturnStatement: (node) => {
+      if (node.expression && fabricates(node.expression)) fabricated = true
+    },
+  })
+  return fabricated ? balanceOf : null
+}
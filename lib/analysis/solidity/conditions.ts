@@ -0,0 +1,85 @@
+import { visit } from "@solidity-parser/parser"
+import type { Expression } from "@solidity-parser/parser/dist/src/ast-types"
+import type { ContractModel, FunctionInfo } from "./model"
+
+// Numeric value of a literal, a constant initialized with one, or simple arithmetic over those
+export function evaluate(model: ContractModel, expression: Expression | null, depth = 0): number | null {
+  if (!expression || depth > 5) return null
+  switch (expression.type) {
+    case "NumberLiteral": {
+      if (expression.subdenomination) return null
+      const value = Number(expression.number.replace(/_/g, ""))
+      return Number.isFinite(value) ? value : null
+    }
+    case "Identifier": {
+      const variable = model.stateVariables.get(expression.name)
+      return variable && (variable.constant || variable.immutable)
+        ? evaluate(model, variable.initialValue, depth + 1)
+        : null
+    }
+    case "TupleExpression":
+      return expression.components.length === 1 ? evaluate(model, expression.components[0] as Expression, depth + 1) : null
+    case "BinaryOperation": {
+      const left = evaluate(model, expression.left, depth + 1)
+      const right = evaluate(model, expression.right, depth + 1)
+      if (left === null || right === null) return null
+      switch (expression.operator) {
+        case "+":
+          return left + right
+        case "-":
+          return left - right
+        case "*":
+          return left * right
+        case "/":
+          return right === 0 ? null : left / right
+        case "**":
+          return Math.pow(left, right)
+        default:
+          return null
+      }
+    }
+    default:
+      return null
+  }
+}
+
+export function identifiers(expression: Expression): string[] {
+  const names: string[] = []
+  visit(expression, {
+    Identifier: (node) => {
+      names.push(node.name)
+    },
+  })
+  return names
+}
+
+export const parameters = (fn: FunctionInfo) =>
+  fn.node.parameters.map((param) => param.name).filter((name): name is string => !!name)
+
+// Bounds a condition puts on the subjects it constrains. Upper: `x <= 25` and `25 >= x` when the
+// condition is required, `x > 25` and `25 < x` when it makes the call revert; lower bounds mirror
+// these. Both sides of && (required) and of || (reverting) bound independently. A strict bound
+// excludes its own value: `x > 0` and `if (x <= 0) revert()` both keep x above zero.
+export function bounds(
+  condition: Expression,
+  required: boolean,
+  subjects: Set<string>,
+  direction: "upper" | "lower",
+): Array<{ bound: Expression; strict: boolean }> {
+  if (condition.type === "TupleExpression" && condition.components.length === 1) {
+    return bounds(condition.components[0] as Expression, required, subjects, direction)
+  }
+  if (condition.type !== "BinaryOperation") return []
+  const { operator, left, right } = condition
+  if ((required && operator === "&&") || (!required && operator === "||")) {
+    return [...bounds(left, required, subjects, direction), ...bounds(right, required, subjects, direction)]
+  }
+
+  // Whether the condition bounds its left side from above
+  const below = direction === "upper" ? required : !required
+  const limitsLeft = below ? operator === "<=" || operator === "<" : operator === ">" || operator === ">="
+  const limitsRight = below ? operator === ">=" || operator === ">" : operator === "<" || operator === "<="
+  const [subject, bound] = limitsLeft ? [left, right] : limitsRight ? [right, left] : [null, null]
+  if (!subject || !bound || !identifiers(subject).some((name) => subjects.has(name))) return []
+  return [{ bound, strict: required ? operator === "<" || operator === ">" : operator === "<=" || operator === ">=" }]
+}
@@ -0,0 +1,166 @@
+import type { Expression } from "@solidity-parser/parser/dist/src/ast-types"
+import type { Capability, SecurityFinding } from "@/lib/analysis/types"
+import {
+  callerGuards,
+  delegatesCalls,
+  entryPoints,
+  reachableFunctions,
+  stateWrites,
+  type ContractModel,
+  type FunctionInfo,
+  type StateWrite,
+} from "./model"
+import { containsAddition, fabricatedBalanceOf, findBalanceWrites, SUPPLY_VARIABLE } from "./balances"
+import { findFees } from "./fees"
+import { findRestrictions, type RestrictionKind } from "./restrictions"
+
+export interface Detector {
+  capability: Capability
+  detect(model: ContractModel): SecurityFinding[]
+}
+
+const PAUSE_VARIABLE = /^_?paused$/i
+const BLACKLIST_VARIABLE = /black|blocked|blocklist|bots?$|sniper|banned|deny|denied|frozen|freez/i
+
+export function toFinding(
+  model: ContractModel,
+  fn: FunctionInfo,
+  capability: Capability,
+  description: string,
+): SecurityFinding {
+  return {
+    capability,
+    contract: fn.contract,
+    function: fn.signature,
+    modifiers: fn.modifiers,
+    guarded: callerGuards(model, fn).length > 0,
+    location: fn.location,
+    description,
+    confidence: "high",
+  }
+}
+
+function increases(write: StateWrite): boolean {
+  if (write.operator === "+=" || write.operator === "++") return true
+  return write.operator === "=" && write.value !== null && containsAddition(write.value)
+}
+
+function isFalse(expression: Expression | null): boolean {
+  return expression?.type === "BooleanLiteral" && expression.value === false
+}
+
+const mintDetector: Detector = {
+  capability: "mint",
+  detect: (model) => {
+    // Paths that credit balances without debiting any, whatever they are called
+    const credits = new Set(
+      findBalanceWrites(model)
+        .filter((path) => path.balances === "increase")
+        .map((path) => path.function),
+    )
+    return entryPoints(model)
+      .filter(
+        (entry) =>
+          /^mint/i.test(entry.name) ||
+          reachableFunctions(model, entry).some((fn) => fn !== entry && fn.name === "_mint") ||
+          stateWrites(model, entry).some((write) => SUPPLY_VARIABLE.test(write.variable) && increases(write)) ||
+          credits.has(entry.signature),
+      )
+      .map((entry) => toFinding(model, entry, "mint", `${entry.name}() can increase the token supply`))
+  },
+}
+
+const pauseDetector: Detector = {
+  capability: "pause",
+  detect: (model) =>
+    entryPoints(model)
+      .filter(
+        (entry) =>
+          reachableFunctions(model, entry).some((fn) => fn.name === "_pause") ||
+          stateWrites(model, entry).some((write) => PAUSE_VARIABLE.test(write.variable) && !isFalse(write.value)),
+      )
+      .map((entry) => toFinding(model, entry, "pause", `${entry.name}() can pause token transfers`)),
+}
+
+const blacklistDetector: Detector = {
+  capability: "blacklist",
+  detect: (model) =>
+    entryPoints(model)
+      .filter((entry) =>
+        stateWrites(model, entry).some(
+          (write) =>
+            BLACKLIST_VARIABLE.test(write.variable) &&
+            model.stateVariables.get(write.variable)!.type.startsWith("mapping(address"),
+        ),
+      )
+      .map((entry) => toFinding(model, entry, "blacklist", `${entry.name}() can block addresses from transferring`)),
+}
+
+const proxyDetector: Detector = {
+  capability: "proxy",
+  detect: (model) => [
+    ...model.functions
+      .filter((fn) => fn.kind === "fallback" && delegatesCalls(model, fn))
+      .map((fn) => toFinding(model, fn, "proxy", "fallback() delegates calls to another contract's logic")),
+    ...entryPoints(model)
+      .filter((entry) => /^upgradeTo(AndCall)?$/.test(entry.name))
+      .map((entry) => toFinding(model, entry, "proxy", `${entry.name}() can replace the contract logic`)),
+  ],
+}
+
+const feeDetector: Detector = {
+  capability: "fee",
+  detect: (model) =>
+    findFees(model).setters.map((setter) => {
+      const entry = model.functions.find((fn) => fn.signature === setter.function)!
+      const cap = setter.cap === null ? "with no upper limit" : `up to ${setter.cap}`
+      return toFinding(model, entry, "fee", `${entry.name}() can change transfer fees (${setter.variables.join(", ")}) ${cap}`)
+    }),
+}
+
+const RESTRICTION_NAMES: Record<RestrictionKind, string> = {
+  maxTransaction: "the max transaction amount",
+  maxWallet: "the max wallet size",
+  cooldown: "the trade cooldown",
+  tradingEnabled: "whether trading is enabled",
+}
+
+const tradingRestrictionDetector: Detector = {
+  capability: "tradingRestriction",
+  detect: (model) =>
+    findRestrictions(model).setters.map((setter) => {
+      const entry = model.functions.find((fn) => fn.signature === setter.function)!
+      const changes = setter.kinds.map((kind) => RESTRICTION_NAMES[kind]).join(" and ")
+      const blocking = setter.blocking ? ", and can stop all trading" : ""
+      return toFinding(model, entry, "tradingRestriction", `${entry.name}() can change ${changes}${blocking}`)
+    }),
+}
+
+const balanceManipulationDetector: Detector = {
+  capability: "balanceManipulation",
+  detect: (model) => {
+    const balanceOf = fabricatedBalanceOf(model)
+    return [
+      ...findBalanceWrites(model)
+        .filter((path) => path.balances === "overwrite" || path.debitsOthers)
+        .map((path) => {
+          const entry = model.functions.find((fn) => fn.signature === path.function)!
+          const action = path.balances === "overwrite" ? "set balances directly" : "take tokens from other accounts"
+          return toFinding(model, entry, "balanceManipulation", `${entry.name}() can ${action} (${path.variables.join(", ")})`)
+        }),
+      ...(balanceOf
+        ? [toFinding(model, balanceOf, "balanceManipulation", "balanceOf() reports amounts that are not in balance storage")]
+        : []),
+    ]
+  },
+}
+
+export const DETECTORS: Detector[] = [
+  mintDetector,
+  pauseDetector,
+  blacklistDetector,
+  proxyDetector,
+  feeDetector,
+  tradingRestrictionDetector,
+  balanceManipulationDetector,
+]
@@ -0,0 +1,146 @@
+import { visit } from "@solidity-parser/parser"
+import type { Expression } from "@solidity-parser/parser/dist/src/ast-types"
+import { bounds, evaluate, identifiers, parameters } from "./conditions"
+import {
+  callerGuards,
+  entryPoints,
+  guardConditions,
+  stateWrites,
+  type ContractModel,
+  type FunctionInfo,
+} from "./model"
+
+// Which transfers a fee applies to, from its name; "all" for a single flat fee
+export type FeeKind = "buy" | "sell" | "transfer" | "all"
+
+export interface FeeVariable {
+  name: string
+  kind: FeeKind
+  // Public variables can be read through their generated getter
+  public: boolean
+}
+
+export interface SourceFeeSetter {
+  function: string
+  modifiers: string[]
+  guarded: boolean
+  // Fee variables the setter writes
+  variables: string[]
+  // Lowest hard-coded upper bound the setter enforces on its input or the fees it writes, in the
+  // contract's own units; null when it accepts any value
+  cap: number | null
+}
+
+export interface SourceFees {
+  variables: FeeVariable[]
+  setters: SourceFeeSetter[]
+  // What fee values are divided by when they are applied (100 for percent, 10000 for basis
+  // points); null when no such division was found
+  denominator: number | null
+}
+
+const FEE_VARIABLE = /fee|tax/i
+// Fee wallets, exemption lists, swap settings and running totals share the naming but are not rates
+const NOT_A_RATE = /wallet|address|receiver|recipient|collector|exclud|exempt|enabled|swap|threshold|denominator|divisor|previous|amount|max|feeTotal|collected|accumulated/i
+
+export function feeKind(name: string): FeeKind {
+  if (/buy/i.test(name)) return "buy"
+  if (/sell/i.test(name)) return "sell"
+  if (/transfer/i.test(name)) return "transfer"
+  return "all"
+}
+
+// Mutable uint state variables (or fee structs) named like a fee rate
+export function isFeeVariable(model: ContractModel, name: string): boolean {
+  const variable = model.stateVariables.get(name)
+  if (!variable || variable.constant || variable.immutable) return false
+  if (!FEE_VARIABLE.test(name) || NOT_A_RATE.test(name)) return false
+  return variable.type.startsWith("uint") || FEE_VARIABLE.test(variable.type)
+}
+
+// Hard-coded upper bounds a condition puts on the subjects
+function upperBounds(model: ContractModel, condition: Expression, required: boolean, subjects: Set<string>): number[] {
+  return bounds(condition, required, subjects, "upper")
+    .map(({ bound }) => evaluate(model, bound))
+    .filter((value): value is number => value !== null)
+}
+
+// An entry point that writes a fee from its input or to a fixed non-zero value. Writes of zero or of
+// another state variable, like the removeAllFee()/restoreAllFee() pair reflection tokens run on
+// every transfer, do not make a setter.
+function toSetter(model: ContractModel, entry: FunctionInfo): SourceFeeSetter | null {
+  const writes = stateWrites(model, entry).filter((write) => write.value !== null && isFeeVariable(model, write.variable))
+  const inputs = (write: (typeof writes)[number]) => new Set([...parameters(entry), ...parameters(write.function)])
+  const fromInput = writes.filter((write) => identifiers(write.value!).some((name) => inputs(write).has(name)))
+  const fixed = writes
+    .map((write) => ({ write, value: evaluate(model, write.value) }))
+    .filter((item): item is { write: (typeof writes)[number]; value: number } => item.value !== null && item.value > 0)
+  if (fromInput.length === 0 && fixed.length === 0) return null
+
+  // A bound on the input or on the written fee itself caps what the setter can set
+  const variables = [...new Set([...fromInput, ...fixed.map(({ write }) => write)].map((write) => write.variable))]
+  const subjects = new Set([...variables, ...fromInput.flatMap((write) => [...inputs(write)])])
+  const { required, reverting } = guardConditions(model, entry)
+  const bounds = [
+    ...required.flatMap((condition) => upperBounds(model, condition, true, subjects)),
+    ...reverting.flatMap((condition) => upperBounds(model, condition, false, subjects)),
+  ]
+  const fixedMax = fixed.length > 0 ? Math.max(...fixed.map(({ value }) => value)) : null
+  const inputCap = fromInput.length === 0 ? fixedMax : bounds.length > 0 ? Math.min(...bounds) : null
+
+  return {
+    function: entry.signature,
+    modifiers: entry.modifiers,
+    guarded: callerGuards(model, entry).length > 0,
+    variables,
+    cap: inputCap !== null && fixedMax !== null ? Math.max(inputCap, fixedMax) : inputCap,
+  }
+}
+
+// The divisor in `amount * fee / 100` or `amount.mul(fee).div(10000)`
+function findDenominator(model: ContractModel): number | null {
+  const usesFee = (expression: Expression) => identifiers(expression).some((name) => isFeeVariable(model, name))
+  const denominators: number[] = []
+
+  for (const fn of model.functions) {
+    if (!fn.node.body) continue
+    visit(fn.node.body, {
+      BinaryOperation: (node) => {
+        if (node.operator !== "/" || !usesFee(node.left)) return
+        const value = evaluate(model, node.right)
+        if (value !== null && value > 0) denominators.push(value)
+      },
+      FunctionCall: (node) => {
+        const callee = node.expression
+        if (callee.type !== "MemberAccess" || callee.memberName !== "div" || !node.arguments[0]) return
+        if (!usesFee(callee.expression)) return
+        const value = evaluate(model, node.arguments[0])
+        if (value !== null && value > 0) denominators.push(value)
+      },
+    })
+  }
+  // The most common divisor wins; contracts sometimes divide by 2 to split the liquidity share
+  const counts = new Map<number, number>()
+  denominators.filter((value) => value >= 100).forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1))
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null
+}
+
+export function findFees(model: ContractModel): SourceFees {
+  const variables = [...model.stateVariables.values()]
+    .filter((variable) => isFeeVariable(model, variable.name) && variable.type.startsWith("uint"))
+    .map((variable) => ({
+      name: variable.name,
+      kind: feeKind(variable.name),
+      public: variable.visibility === "public",
+    }))
+
+  return {
+    variables,
+    setters: entryPoints(model)
+      // Transfers that switch between buy and sell rates are applying fees, not setting them
+      .filter((entry) => !/^(transfer|transferFrom)$/.test(entry.name))
+      .map((entry) => toSetter(model, entry))
+      .filter((setter): setter is SourceFeeSetter => setter !== null),
+    denominator: findDenominator(model),
+  }
+}
@@ -0,0 +1,225 @@
+import { visit } from "@solidity-parser/parser"
+import type { Expression } from "@solidity-parser/parser/dist/src/ast-types"
+import type { PrivilegeCategory, PrivilegedFunction, SourceLocation } from "@/lib/analysis/types"
+import { identifiers } from "./conditions"
+import {
+  callerGuards,
+  entryPoints,
+  senderPeers,
+  stateWrites,
+  type ContractModel,
+  type FunctionInfo,
+} from "./model"
+import { storageLayout, type StorageLocation } from "./storage"
+
+// secondOwner: another stored address can call owner-level functions and survives renouncing;
+// fakeRenounce: renounceOwnership() does not clear the owner;
+// lockUnlock: a _previousOwner can be restored as owner after ownership was given up;
+// ownerBackdoor: a function other than the owner's own can set the owner
+export type HiddenOwnerPattern = "secondOwner" | "fakeRenounce" | "lockUnlock" | "ownerBackdoor"
+
+export interface HiddenOwnerFinding {
+  pattern: HiddenOwnerPattern
+  function: string | null
+  // Variable that keeps or regains control
+  variable: string | null
+  location: SourceLocation | null
+  description: string
+}
+
+export interface StoredAddress {
+  name: string
+  // Public variables can be read through their generated getter, the rest from storage
+  public: boolean
+  storage: StorageLocation | null
+}
+
+export interface PrivilegedVariable extends StoredAddress {
+  // Guarded functions that check the caller against the variable, and what they can do
+  functions: string[]
+  powers: PrivilegeCategory[]
+}
+
+export interface SourceHiddenOwner {
+  ownerVariable: StoredAddress | null
+  previousOwnerVariable: StoredAddress | null
+  privilegedVariables: PrivilegedVariable[]
+  findings: HiddenOwnerFinding[]
+}
+
+// Powers that amount to keeping control of the token
+export const CONTROLLING_POWERS: PrivilegeCategory[] = ["upgrade", "supply", "transferGating", "fees"]
+
+// Handing ownership over is the owner's (or the owner-elect's) own business
+const OWNERSHIP_HANDOVER = /^(transferOwnership|renounceOwnership|acceptOwnership)$/
+
+const isAddressVariable = (model: ContractModel, name: string) => {
+  const variable = model.stateVariables.get(name)
+  return !!variable && !variable.constant && variable.type === "address"
+}
+
+// The variable owner() returns, or the conventional _owner/owner
+function findOwnerVariable(model: ContractModel): string | null {
+  const getter = model.functions.find((fn) => fn.name === "owner" && fn.node.parameters.length === 0)
+  let returned: string | null = null
+  if (getter?.node.body) {
+    visit(getter.node.body, {
+      ReturnStatement: (node) => {
+        if (node.expression?.type === "Identifier") returned = node.expression.name
+      },
+    })
+  }
+  if (returned && isAddressVariable(model, returned)) return returned
+  return [...model.stateVariables.keys()].find((name) => /^_?owner$/i.test(name) && isAddressVariable(model, name)) ?? null
+}
+
+// address(0), address(0xdead) or a constant holding one
+function isZeroAddress(model: ContractModel, expression: Expression | null): boolean {
+  if (!expression) return false
+  if (expression.type === "Identifier") {
+    const variable = model.stateVariables.get(expression.name)
+    return !!variable?.constant && isZeroAddress(model, variable.initialValue)
+  }
+  if (expression.type !== "FunctionCall" || expression.arguments.length !== 1) return false
+  const callee = expression.expression
+  const argument = expression.arguments[0]
+  return (
+    (callee.type === "Identifier" || callee.type === "ElementaryTypeName") &&
+    callee.name === "address" &&
+    argument.type === "NumberLiteral" &&
+    (/^0x0*$|^0+$/i.test(argument.number) || /dead$/i.test(argument.number))
+  )
+}
+
+// Whether the function hands a zero address to one of the contract's own functions, as in
+// _transferOwnership(address(0)); events are not functions and do not count
+function passesZeroAddress(model: ContractModel, entry: FunctionInfo): boolean {
+  let found = false
+  if (!entry.node.body) return false
+  visit(entry.node.body, {
+    FunctionCall: (node) => {
+      const callee = node.expression
+      if (callee.type !== "Identifier" || !model.allFunctions.some((fn) => fn.name === callee.name)) return
+      if (node.arguments.some((argument) => isZeroAddress(model, argument))) found = true
+    },
+  })
+  return found
+}
+
+function clearsOwner(model: ContractModel, entry: FunctionInfo, ownerVariable: string): boolean {
+  const writes = stateWrites(model, entry).filter((write) => write.variable === ownerVariable)
+  return writes.some(
+    (write) =>
+      write.operator === "delete" ||
+      isZeroAddress(model, write.value) ||
+      (write.function !== entry && passesZeroAddress(model, entry)),
+  )
+}
+
+const calledBy = (model: ContractModel, entry: FunctionInfo, ownerVariable: string | null) => {
+  const peers = senderPeers(model, entry)
+  return peers.includes("owner") || (!!ownerVariable && peers.includes(ownerVariable))
+}
+
+export function findHiddenOwner(model: ContractModel, privileges: PrivilegedFunction[]): SourceHiddenOwner {
+  const layout = storageLayout(model)
+  const stored = (name: string): StoredAddress => ({
+    name,
+    public: model.stateVariables.get(name)?.visibility === "public",
+    storage: layout.get(name) ?? null,
+  })
+  const entries = entryPoints(model)
+  const entryFor = (signature: string) => entries.find((entry) => entry.signature === signature)
+  const findings: HiddenOwnerFinding[] = []
+
+  const owner = findOwnerVariable(model)
+  const previousOwner =
+    [...model.stateVariables.keys()].find((name) => /previous_?owner/i.test(name) && isAddressVariable(model, name)) ??
+    null
+  const renounce = entries.find((entry) => entry.name === "renounceOwnership")
+
+  if (renounce && owner && !clearsOwner(model, renounce, owner)) {
+    findings.push({
+      pattern: "fakeRenounce",
+      function: renounce.signature,
+      variable: owner,
+      location: renounce.location,
+      description: `renounceOwnership() does not clear ${owner}, so the owner keeps control`,
+    })
+  }
+
+  // Owner writes outside the usual handover functions
+  let restore: FunctionInfo | undefined
+  if (owner) {
+    for (const entry of entries) {
+      const initializer = /^initiali[sz]e/i.test(entry.name) || entry.modifiers.includes("initializer")
+      if (OWNERSHIP_HANDOVER.test(entry.name) || initializer) continue
+      const writes = stateWrites(model, entry).filter((write) => write.variable === owner && write.value !== null)
+      if (writes.length === 0) continue
+
+      if (previousOwner && writes.some((write) => identifiers(write.value!).includes(previousOwner))) {
+        restore = entry
+        findings.push({
+          pattern: "lockUnlock",
+          function: entry.signature,
+          variable: previousOwner,
+          location: entry.location,
+          description: `${entry.name}() restores ${previousOwner} as owner, even after ownership was given up`,
+        })
+      } else if (!writes.every((write) => isZeroAddress(model, write.value)) && !calledBy(model, entry, owner)) {
+        const guards = callerGuards(model, entry)
+        findings.push({
+          pattern: "ownerBackdoor",
+          function: entry.signature,
+          variable: null,
+          location: entry.location,
+          description:
+            guards.length > 0
+              ? `${entry.name}() can set the owner and is restricted by ${guards.join(", ")} rather than the current owner`
+              : `${entry.name}() can set the owner and anyone can call it`,
+        })
+      }
+    }
+  }
+
+  // Stored addresses other than the owner that privileged functions check the caller against
+  const byVariable = new Map<string, PrivilegedFunction[]>()
+  for (const privilege of privileges) {
+    const entry = entryFor(privilege.function)
+    if (!entry || entry === restore) continue
+    for (const peer of senderPeers(model, entry)) {
+      if (peer === owner || peer === previousOwner || !isAddressVariable(model, peer)) continue
+      byVariable.set(peer, [...(byVariable.get(peer) ?? []), privilege])
+    }
+  }
+  const privilegedVariables: PrivilegedVariable[] = [...byVariable.entries()].map(([name, functions]) => ({
+    ...stored(name),
+    functions: functions.map((privilege) => privilege.function),
+    powers: [...new Set(functions.map((privilege) => privilege.category))],
+  }))
+
+  for (const variable of privilegedVariables) {
+    // Renouncing that also clears the variable leaves nobody in control
+    if (renounce && stateWrites(model, renounce).some((write) => write.variable === variable.name)) continue
+    const controlling = variable.functions.filter((_, index) =>
+      CONTROLLING_POWERS.includes(byVariable.get(variable.name)![index].category),
+    )
+    if (controlling.length === 0) continue
+    const first = entryFor(controlling[0])!
+    const names = controlling.map((fn) => `${fn.split("(")[0]}()`).join(", ")
+    findings.push({
+      pattern: "secondOwner",
+      function: first.signature,
+      variable: variable.name,
+      location: first.location,
+      description: `${variable.name} can call ${names}, which renouncing ownership does not take away`,
+    })
+  }
+
+  return {
+    ownerVariable: owner ? stored(owner) : null,
+    previousOwnerVariable: previousOwner ? stored(previousOwner) : null,
+    privilegedVariables,
+    findings,
+  }
+}
@@ -0,0 +1,80 @@
+import type { PrivilegedFunction, SecurityFinding } from "@/lib/analysis/types"
+import type { VerifiedSource } from "@/lib/providers"
+import { findBalanceWrites, type BalanceWritePath } from "./balances"
+import { DETECTORS } from "./detectors"
+import { findFees, type SourceFees } from "./fees"
+import { findHiddenOwner, type SourceHiddenOwner } from "./hidden-owner"
+import { buildContractModel, fingerprint } from "./model"
+import { findPrivilegedFunctions } from "./privileges"
+import { findRestrictions, type SourceRestrictions } from "./restrictions"
+import { extractSourceFiles } from "./sources"
+
+export type { BalanceWritePath, WriteEffect } from "./balances"
+export type { FeeKind, SourceFees } from "./fees"
+export { feeKind } from "./fees"
+export type { HiddenOwnerFinding, HiddenOwnerPattern, SourceHiddenOwner, StoredAddress } from "./hidden-owner"
+export { CONTROLLING_POWERS } from "./hidden-owner"
+export type { RestrictionKind, SourceRestrictions } from "./restrictions"
+export { restrictionKind } from "./restrictions"
+
+export interface SourceAnalysis {
+  contractName: string
+  hasMintFunction: boolean
+  hasPauseFunction: boolean
+  hasBlacklistFunction: boolean
+  hasProxyContract: boolean
+  findings: SecurityFinding[]
+  // Owner- and role-guarded functions of the deployed contract
+  privileges: PrivilegedFunction[]
+  // Every path outside the constructor that writes balance or supply storage
+  balanceWrites: BalanceWritePath[]
+  // Fee variables, fee setters with the caps they enforce, and the fee denominator
+  fees: SourceFees
+  // Max-tx, max-wallet, cooldown and trading switch variables, and the setters that change them
+  restrictions: SourceRestrictions
+  // Owner, previous-owner and other privileged address variables with their storage slots, and the
+  // patterns that keep control after ownership is renounced
+  hiddenOwner: SourceHiddenOwner
+}
+
+// Parses verified source into an AST and runs the capability detectors against the functions the
+// deployed contract actually exposes, ignoring comments, unused imports and unrelated libraries.
+// The fee, restriction and hidden-owner analyzers work from the same parse.
+// Returns null when the source cannot be parsed (e.g. Vyper).
+export function analyzeSource(source: VerifiedSource): SourceAnalysis | null {
+  const files = extractSourceFiles(source.sourceCode, source.contractName)
+  const model = buildContractModel(files, source.contractName)
+  if (!model) return null
+
+  const findings = DETECTORS.flatMap((detector) => detector.detect(model))
+  const has = (capability: SecurityFinding["capability"]) => findings.some((finding) => finding.capability === capability)
+  const privileges = findPrivilegedFunctions(model, findings)
+
+  return {
+    contractName: model.deployed.name,
+    hasMintFunction: has("mint"),
+    hasPauseFunction: has("pause"),
+    hasBlacklistFunction: has("blacklist"),
+    hasProxyContract: has("proxy"),
+    findings,
+    privileges,
+    balanceWrites: findBalanceWrites(model),
+    fees: findFees(model),
+    restrictions: findRestrictions(model),
+    hiddenOwner: findHiddenOwner(model, privileges),
+  }
+}
+
+// External and public functions of the deployed contract keyed by signature, each with a fingerprint
+// of the code it runs. Two implementations of a proxy are diffed by comparing these.
+export function fingerprintFunctions(source: VerifiedSource): Map<string, string> | null {
+  const files = extractSourceFiles(source.sourceCode, source.contractName)
+  const model = buildContractModel(files, source.contractName)
+  if (!model) return null
+
+  return new Map(
+    model.functions
+      .filter((fn) => fn.kind === "function" && (fn.visibility === "external" || fn.visibility === "public"))
+      .map((fn) => [fn.signature, fingerprint(model, fn)]),
+  )
+}
@@ -0,0 +1,583 @@
+import { parse, visit } from "@solidity-parser/parser"
+import type {
+  ASTNode,
+  BaseASTNode,
+  ContractDefinition,
+  Expression,
+  FunctionDefinition,
+  ModifierDefinition,
+  StateVariableDeclaration,
+  TypeName,
+} from "@solidity-parser/parser/dist/src/ast-types"
+import type { SourceLocation } from "@/lib/analysis/types"
+import type { SourceFile } from "./sources"
+
+export interface ContractInfo {
+  name: string
+  // "contract", "abstract", "interface" or "library"
+  kind: string
+  file: string
+  node: ContractDefinition
+}
+
+export interface FunctionInfo {
+  name: string
+  contract: string
+  file: string
+  node: FunctionDefinition
+  kind: "function" | "constructor" | "fallback" | "receive"
+  visibility: "external" | "public" | "internal" | "private"
+  stateMutability: string | null
+  modifiers: string[]
+  signature: string
+  location: SourceLocation
+}
+
+export interface ModifierInfo {
+  name: string
+  contract: string
+  file: string
+  node: ModifierDefinition
+}
+
+export interface StateVariableInfo {
+  name: string
+  contract: string
+  type: string
+  visibility: string
+  constant: boolean
+  immutable: boolean
+  // Declared value, e.g. the 25 of `uint256 constant MAX_FEE = 25`
+  initialValue: Expression | null
+  location: SourceLocation
+}
+
+export interface StateWrite {
+  variable: string
+  // What is assigned to, e.g. _balances[to] for the _balances variable
+  target: Expression
+  operator: string
+  // Right-hand side of an assignment, null for ++, -- and delete
+  value: Expression | null
+  function: FunctionInfo
+}
+
+export interface ContractModel {
+  deployed: ContractInfo
+  // Deployed contract followed by its bases, most derived first (C3 linearization)
+  linearized: ContractInfo[]
+  // Functions visible on the deployed contract after overrides are resolved
+  functions: FunctionInfo[]
+  // Every function in the linearized contracts, including overridden ones reachable through super
+  allFunctions: FunctionInfo[]
+  modifiers: Map<string, ModifierInfo>
+  stateVariables: Map<string, StateVariableInfo>
+  // Contracts, interfaces, structs and enums declared anywhere in the source, for storage layout
+  userTypes: Map<string, "contract" | "struct" | "enum">
+}
+
+const ASSIGNMENT_OPERATORS = new Set(["=", "+=", "-=", "*=", "/=", "%=", "|=", "&=", "^=", "<<=", ">>="])
+// Modifier names taken to restrict the caller when their body lives outside the verified source
+const ACCESS_MODIFIER_PATTERN = /^(only|auth|owner|admin|role|restricted|governance|controller)/i
+
+export function buildContractModel(files: SourceFile[], contractName: string): ContractModel | null {
+  const contracts = new Map<string, ContractInfo>()
+  const userTypes = new Map<string, "contract" | "struct" | "enum">()
+
+  for (const file of files) {
+    let unit
+    try {
+      unit = parse(file.content, { loc: true, range: true, tolerant: true })
+    } catch (error) {
+      console.error(`Error parsing ${file.path}:`, error)
+      continue
+    }
+    visit(unit, {
+      ContractDefinition: (node) => {
+        contracts.set(node.name, { name: node.name, kind: node.kind, file: file.path, node })
+        userTypes.set(node.name, "contract")
+      },
+      StructDefinition: (node) => {
+        userTypes.set(node.name, "struct")
+      },
+      EnumDefinition: (node) => {
+        userTypes.set(node.name, "enum")
+      },
+    })
+  }
+
+  const deployed = contracts.get(contractName) ?? guessDeployedContract(contracts)
+  if (!deployed) return null
+
+  const linearized = linearize(deployed.name, contracts, new Map())
+    .map((name) => contracts.get(name))
+    .filter((contract): contract is ContractInfo => contract !== undefined)
+
+  const allFunctions: FunctionInfo[] = []
+  const modifiers = new Map<string, ModifierInfo>()
+  const stateVariables = new Map<string, StateVariableInfo>()
+
+  for (const contract of linearized) {
+    for (const node of contract.node.subNodes as ASTNode[]) {
+      if (node.type === "FunctionDefinition") {
+        allFunctions.push(toFunctionInfo(contract, node))
+      } else if (node.type === "ModifierDefinition" && !modifiers.has(node.name)) {
+        modifiers.set(node.name, { name: node.name, contract: contract.name, file: contract.file, node })
+      } else if (node.type === "StateVariableDeclaration") {
+        for (const variable of toStateVariables(contract, node)) {
+          if (!stateVariables.has(variable.name)) stateVariables.set(variable.name, variable)
+        }
+      }
+    }
+  }
+
+  // The most derived definition of each signature wins
+  const seen = new Set<string>()
+  const functions = allFunctions.filter((fn) => {
+    const key = fn.kind === "function" ? fn.signature : fn.kind
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+
+  return { deployed, linearized, functions, allFunctions, modifiers, stateVariables, userTypes }
+}
+
+// The deployed contract is normally named by the explorer; otherwise take the last concrete
+// contract that nothing else inherits from.
+function guessDeployedContract(contracts: Map<string, ContractInfo>): ContractInfo | undefined {
+  const inherited = new Set<string>()
+  for (const contract of contracts.values()) {
+    for (const base of contract.node.baseContracts) inherited.add(baseName(base.baseName.namePath))
+  }
+  return [...contracts.values()].reverse().find((c) => c.kind === "contract" && !inherited.has(c.name))
+}
+
+function baseName(namePath: string): string {
+  return namePath.split(".").pop() || namePath
+}
+
+function linearize(name: string, contracts: Map<string, ContractInfo>, cache: Map<string, string[]>): string[] {
+  const cached = cache.get(name)
+  if (cached) return cached
+  // Guards against cyclic inheritance in malformed sources
+  cache.set(name, [name])
+
+  const bases = (contracts.get(name)?.node.baseContracts ?? [])
+    .map((base) => baseName(base.baseName.namePath))
+    .filter((base) => contracts.has(base))
+    .reverse()
+  const sequences = [...bases.map((base) => [...linearize(base, contracts, cache)]), [...bases]]
+  const result = [name]
+
+  while (sequences.some((sequence) => sequence.length > 0)) {
+    const candidate = sequences
+      .filter((sequence) => sequence.length > 0)
+      .map((sequence) => sequence[0])
+      .find((head) => !sequences.some((sequence) => sequence.indexOf(head) > 0))
+    // Inconsistent hierarchy: fall back to taking the next head in order
+    const next = candidate ?? sequences.find((sequence) => sequence.length > 0)![0]
+    if (!result.includes(next)) result.push(next)
+    for (const sequence of sequences) {
+      if (sequence[0] === next) sequence.shift()
+    }
+  }
+
+  cache.set(name, result)
+  return result
+}
+
+function toFunctionInfo(contract: ContractInfo, node: FunctionDefinition): FunctionInfo {
+  const kind = node.isConstructor || node.name === contract.name
+    ? "constructor"
+    : node.isFallback
+      ? "fallback"
+      : node.isReceiveEther
+        ? "receive"
+        : "function"
+  const name = kind === "function" ? node.name || "" : kind
+
+  return {
+    name,
+    contract: contract.name,
+    file: contract.file,
+    node,
+    kind,
+    // Solidity < 0.5 defaulted functions to public
+    visibility: node.visibility === "default" ? "public" : node.visibility,
+    stateMutability: node.stateMutability,
+    modifiers: node.modifiers.map((modifier) => modifier.name),
+    signature: `${name}(${node.parameters.map((param) => typeToString(param.typeName)).join(",")})`,
+    location: locationOf(contract.file, node),
+  }
+}
+
+function toStateVariables(contract: ContractInfo, node: StateVariableDeclaration): StateVariableInfo[] {
+  return node.variables.map((variable) => ({
+    name: variable.name || "",
+    contract: contract.name,
+    type: typeToString(variable.typeName),
+    visibility: variable.visibility || "internal",
+    constant: Boolean(variable.isDeclaredConst),
+    immutable: variable.isImmutable,
+    initialValue: node.variables.length === 1 ? node.initialValue : null,
+    location: locationOf(contract.file, variable),
+  }))
+}
+
+export function typeToString(typeName: TypeName | null): string {
+  if (!typeName) return ""
+  switch (typeName.type) {
+    case "ElementaryTypeName":
+      if (typeName.name === "uint") return "uint256"
+      if (typeName.name === "int") return "int256"
+      if (typeName.name === "byte") return "bytes1"
+      return typeName.name
+    case "UserDefinedTypeName":
+      return typeName.namePath
+    case "Mapping":
+      return `mapping(${typeToString(typeName.keyType)} => ${typeToString(typeName.valueType)})`
+    case "ArrayTypeName": {
+      const length = typeName.length && "number" in typeName.length ? typeName.length.number : ""
+      return `${typeToString(typeName.baseTypeName)}[${length}]`
+    }
+    default:
+      return "function"
+  }
+}
+
+export function locationOf(file: string, node: BaseASTNode): SourceLocation {
+  return {
+    file,
+    line: node.loc?.start.line ?? 0,
+    column: (node.loc?.start.column ?? 0) + 1,
+  }
+}
+
+// Externally callable functions that can change state
+export function entryPoints(model: ContractModel): FunctionInfo[] {
+  return model.functions.filter(
+    (fn) =>
+      fn.kind !== "constructor" &&
+      (fn.visibility === "external" || fn.visibility === "public") &&
+      fn.stateMutability !== "view" &&
+      fn.stateMutability !== "pure" &&
+      fn.stateMutability !== "constant",
+  )
+}
+
+interface BodyFacts {
+  calls: string[]
+  superCalls: string[]
+  writes: Array<{ variable: string; target: Expression; operator: string; value: Expression | null }>
+  checksSender: boolean
+  // Variables the caller is compared against, e.g. _owner in require(msg.sender == _owner)
+  senderPeers: string[]
+  delegatecalls: boolean
+  // Sends native currency or tokens: .transfer(), .send(), .call{value: ...}() and the like
+  sendsFunds: boolean
+  // Conditions of require()/assert(), and of if statements whose body reverts
+  requirements: Expression[]
+  revertConditions: Expression[]
+}
+
+const factsCache = new WeakMap<BaseASTNode, BodyFacts>()
+
+function factsOf(body: BaseASTNode | null): BodyFacts {
+  const empty: BodyFacts = {
+    calls: [],
+    superCalls: [],
+    writes: [],
+    checksSender: false,
+    senderPeers: [],
+    delegatecalls: false,
+    sendsFunds: false,
+    requirements: [],
+    revertConditions: [],
+  }
+  if (!body) return empty
+
+  const cached = factsCache.get(body)
+  if (cached) return cached
+
+  const facts = empty
+  const addWrite = (target: Expression | null, operator: string, value: Expression | null) => {
+    if (target?.type === "TupleExpression") {
+      for (const component of target.components) addWrite(component as Expression | null, operator, null)
+      return
+    }
+    const variable = target ? rootIdentifier(target) : null
+    if (target && variable) facts.writes.push({ variable, target, operator, value })
+  }
+
+  visit(body, {
+    FunctionCall: (node) => {
+      const callee = node.expression
+      if (callee.type === "Identifier") {
+        facts.calls.push(callee.name)
+        if ((callee.name === "require" || callee.name === "assert") && node.arguments[0]) {
+          if (checksSender(node.arguments[0])) facts.checksSender = true
+          facts.senderPeers.push(...senderPeersOf(node.arguments[0]))
+          facts.requirements.push(node.arguments[0])
+        }
+      } else if (callee.type === "MemberAccess" && callee.expression.type === "Identifier") {
+        if (callee.expression.name === "super") facts.superCalls.push(callee.memberName)
+        if (callee.expression.name === "this") facts.calls.push(callee.memberName)
+      }
+      if (callee.type === "MemberAccess" && FUND_TRANSFERS.test(callee.memberName) && !isSelf(callee.expression)) {
+        facts.sendsFunds = true
+      }
+      if (callee.type === "NameValueExpression" && callee.arguments.names.includes("value")) facts.sendsFunds = true
+    },
+    IfStatement: (node) => {
+      // Only a check that stops other callers restricts them; if (msg.sender == pair) { fee = buyFee } does not
+      const revertsOtherwise = !!node.falseBody && reverts(node.falseBody)
+      if (reverts(node.trueBody) || revertsOtherwise || guardsPlaceholder(node.trueBody)) {
+        if (checksSender(node.condition)) facts.checksSender = true
+        facts.senderPeers.push(...senderPeersOf(node.condition))
+      }
+      if (reverts(node.trueBody)) facts.revertConditions.push(node.condition)
+      if (revertsOtherwise) facts.requirements.push(node.condition)
+    },
+    BinaryOperation: (node) => {
+      if (ASSIGNMENT_OPERATORS.has(node.operator)) addWrite(node.left, node.operator, node.right)
+    },
+    UnaryOperation: (node) => {
+      if (node.operator === "++" || node.operator === "--" || node.operator === "delete") {
+        addWrite(node.subExpression, node.operator, null)
+      }
+    },
+    MemberAccess: (node) => {
+      if (node.memberName === "delegatecall") facts.delegatecalls = true
+    },
+    AssemblyCall: (node) => {
+      if (node.functionName === "delegatecall") facts.delegatecalls = true
+    },
+  })
+
+  factsCache.set(body, facts)
+  return facts
+}
+
+const FUND_TRANSFERS = /^(transfer|transferFrom|send|sendValue|safeTransfer|safeTransferFrom|safeTransferETH)$/
+
+// super.transfer() and this.transfer() move the token's own balances, not funds held by the contract
+const isSelf = (expression: Expression) =>
+  expression.type === "Identifier" && (expression.name === "super" || expression.name === "this")
+
+function reverts(statement: BaseASTNode): boolean {
+  let found = false
+  visit(statement, {
+    RevertStatement: () => {
+      found = true
+    },
+    ThrowStatement: () => {
+      found = true
+    },
+    FunctionCall: (node) => {
+      if (node.expression.type === "Identifier" && node.expression.name === "revert") found = true
+    },
+  })
+  return found
+}
+
+// A modifier that only runs the function body when the condition holds, as in if (msg.sender == owner) _;
+function guardsPlaceholder(statement: BaseASTNode): boolean {
+  let found = false
+  visit(statement, {
+    // The parser reads the placeholder as an identifier named _
+    Identifier: (node) => {
+      if (node.name === "_") found = true
+    },
+  })
+  return found
+}
+
+export function rootIdentifier(expression: Expression): string | null {
+  let current: Expression = expression
+  while (current.type === "IndexAccess" || current.type === "MemberAccess") {
+    current = current.type === "IndexAccess" ? current.base : current.expression
+  }
+  return current.type === "Identifier" ? current.name : null
+}
+
+export function isSender(expression: Expression): boolean {
+  if (expression.type === "MemberAccess" && expression.expression.type === "Identifier") {
+    return (
+      (expression.expression.name === "msg" && expression.memberName === "sender") ||
+      (expression.expression.name === "tx" && expression.memberName === "origin")
+    )
+  }
+  if (expression.type === "FunctionCall" && expression.expression.type === "Identifier") {
+    return /^_?msgSender$/.test(expression.expression.name)
+  }
+  return false
+}
+
+// A condition restricts the caller when it compares msg.sender for equality, looks it up in an
+// allow-list or asks a role check, e.g. require(msg.sender == owner), require(admins[msg.sender])
+// or if (!hasRole(role, msg.sender)) revert(). Balance checks and negated lookups such as
+// require(!blacklisted[msg.sender]) are not access checks.
+function checksSender(condition: Expression): boolean {
+  switch (condition.type) {
+    case "BinaryOperation":
+      if (condition.operator === "&&" || condition.operator === "||") {
+        return checksSender(condition.left) || checksSender(condition.right)
+      }
+      // tx.origin == msg.sender only keeps contracts out, it does not single out a caller
+      if (condition.operator === "==" || condition.operator === "!=") {
+        return isSender(condition.left) !== isSender(condition.right)
+      }
+      return false
+    case "IndexAccess":
+      return isSender(condition.index)
+    case "UnaryOperation":
+      return condition.operator === "!" && condition.subExpression.type === "FunctionCall"
+        ? checksSender(condition.subExpression)
+        : false
+    case "TupleExpression":
+      return condition.components.length === 1 && checksSender(condition.components[0] as Expression)
+    case "FunctionCall": {
+      if (condition.expression.type !== "Identifier") return false
+      const name = condition.expression.name
+      return (
+        /^(hasRole|_checkRole|isOwner|_isOwner)$/.test(name) ||
+        (/^_?(is|has)[A-Z]/.test(name) && condition.arguments.some(isSender))
+      )
+    }
+    default:
+      return false
+  }
+}
+
+// What the caller is compared with for equality; owner() and _owner alike come back as a name
+function senderPeersOf(condition: Expression): string[] {
+  switch (condition.type) {
+    case "BinaryOperation": {
+      if (condition.operator === "&&" || condition.operator === "||") {
+        return [...senderPeersOf(condition.left), ...senderPeersOf(condition.right)]
+      }
+      if (condition.operator !== "==" && condition.operator !== "!=") return []
+      if (isSender(condition.left) === isSender(condition.right)) return []
+      const peer = isSender(condition.left) ? condition.right : condition.left
+      if (peer.type === "FunctionCall" && peer.expression.type === "Identifier") return [peer.expression.name]
+      const name = rootIdentifier(peer)
+      return name ? [name] : []
+    }
+    case "UnaryOperation":
+      return condition.operator === "!" ? senderPeersOf(condition.subExpression) : []
+    case "TupleExpression":
+      return condition.components.length === 1 ? senderPeersOf(condition.components[0] as Expression) : []
+    default:
+      return []
+  }
+}
+
+function bodiesOf(model: ContractModel, fn: FunctionInfo): BaseASTNode[] {
+  const bodies: BaseASTNode[] = fn.node.body ? [fn.node.body] : []
+  for (const name of fn.modifiers) {
+    const modifier = model.modifiers.get(name)
+    if (modifier?.node.body) bodies.push(modifier.node.body)
+  }
+  return bodies
+}
+
+// The function plus every internal function it can reach through direct, this. and super. calls
+export function reachableFunctions(model: ContractModel, entry: FunctionInfo): FunctionInfo[] {
+  const reached = new Set<FunctionInfo>([entry])
+  const queue = [entry]
+
+  while (queue.length > 0) {
+    const fn = queue.pop()!
+    for (const body of bodiesOf(model, fn)) {
+      const facts = factsOf(body)
+      const targets = [
+        ...model.functions.filter((candidate) => facts.calls.includes(candidate.name)),
+        ...model.allFunctions.filter(
+          (candidate) => facts.superCalls.includes(candidate.name) && candidate.contract !== fn.contract,
+        ),
+      ]
+      for (const target of targets) {
+        if (!reached.has(target)) {
+          reached.add(target)
+          queue.push(target)
+        }
+      }
+    }
+  }
+
+  return [...reached]
+}
+
+export function stateWrites(model: ContractModel, entry: FunctionInfo): StateWrite[] {
+  return reachableFunctions(model, entry).flatMap((fn) =>
+    bodiesOf(model, fn).flatMap((body) =>
+      factsOf(body)
+        .writes.filter((write) => model.stateVariables.has(write.variable))
+        .map((write) => ({ ...write, function: fn })),
+    ),
+  )
+}
+
+// Every condition the function (or anything it reaches, modifiers included) reverts on.
+// `required` must hold for the call to go through; `reverting` makes it revert when it holds.
+export function guardConditions(model: ContractModel, entry: FunctionInfo) {
+  const facts = reachableFunctions(model, entry).flatMap((fn) => bodiesOf(model, fn).map(factsOf))
+  return {
+    required: facts.flatMap((fact) => fact.requirements),
+    reverting: facts.flatMap((fact) => fact.revertConditions),
+  }
+}
+
+// Variables (or getters) the caller of the function, its modifiers or anything it reaches is
+// compared against
+export function senderPeers(model: ContractModel, entry: FunctionInfo): string[] {
+  const peers = reachableFunctions(model, entry).flatMap((fn) =>
+    bodiesOf(model, fn).flatMap((body) => factsOf(body).senderPeers),
+  )
+  return [...new Set(peers)]
+}
+
+// Names of the checks restricting who may call the function; empty when anyone can
+export function callerGuards(model: ContractModel, entry: FunctionInfo): string[] {
+  // The caller is checked against a stored address, an owner()-style getter, or an allow-list or role
+  // lookup (which compares with nothing)
+  const isStored = (peer: string) => model.stateVariables.has(peer) || model.functions.some((fn) => fn.name === peer)
+  const restricts = (facts: BodyFacts) =>
+    facts.checksSender && (facts.senderPeers.length === 0 || facts.senderPeers.some(isStored))
+
+  const guards = entry.modifiers.filter((name) => {
+    const modifier = model.modifiers.get(name)
+    // Only trust the name when the body is not there to read
+    if (!modifier?.node.body) return ACCESS_MODIFIER_PATTERN.test(name)
+    const facts = factsOf(modifier.node.body)
+    return (
+      restricts(facts) ||
+      model.functions.some((fn) => facts.calls.includes(fn.name) && restricts(factsOf(fn.node.body)))
+    )
+  })
+
+  // Inline checks, including those in internal helpers such as _checkOwner()
+  const inline = reachableFunctions(model, entry).some((fn) => restricts(factsOf(fn.node.body)))
+  if (guards.length === 0 && inline) guards.push("msg.sender check")
+
+  return guards
+}
+
+// Serialized AST of everything the function runs (its own and reachable internal functions, plus their
+// modifiers) without source positions, so reformatting or editing comments leaves it unchanged
+export function fingerprint(model: ContractModel, entry: FunctionInfo): string {
+  const nodes = reachableFunctions(model, entry).flatMap((fn) => [
+    fn.node,
+    ...fn.modifiers.map((name) => model.modifiers.get(name)?.node ?? name),
+  ])
+  return JSON.stringify(nodes, (key, value) => (key === "loc" || key === "range" ? undefined : value))
+}
+
+export function delegatesCalls(model: ContractModel, entry: FunctionInfo): boolean {
+  return reachableFunctions(model, entry).some((fn) => bodiesOf(model, fn).some((body) => factsOf(body).delegatecalls))
+}
+
+export function sendsFunds(model: ContractModel, entry: FunctionInfo): boolean {
+  return reachableFunctions(model, entry).some((fn) => bodiesOf(model, fn).some((body) => factsOf(body).sendsFunds))
+}
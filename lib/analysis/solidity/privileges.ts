@@ -0,0 +1,26 @@
+import { categorize } from "@/lib/analysis/privileges"
+import type { PrivilegedFunction, SecurityFinding } from "@/lib/analysis/types"
+import { callerGuards, entryPoints, sendsFunds, type ContractModel } from "./model"
+
+// Every externally callable function behind an owner, role or msg.sender check, classified by what
+// it lets the caller do. Capabilities come from the detector findings for the same function.
+export function findPrivilegedFunctions(model: ContractModel, findings: SecurityFinding[]): PrivilegedFunction[] {
+  return entryPoints(model).flatMap((entry) => {
+    const guards = callerGuards(model, entry)
+    if (guards.length === 0) return []
+    const capabilities = findings
+      .filter((finding) => finding.contract === entry.contract && finding.function === entry.signature)
+      .map((finding) => finding.capability)
+
+    return [
+      {
+        contract: entry.contract,
+        function: entry.signature,
+        guards,
+        category: categorize(capabilities, sendsFunds(model, entry)),
+        location: entry.location,
+        confidence: "high" as const,
+      },
+    ]
+  })
+}
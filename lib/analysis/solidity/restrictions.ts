@@ -0,0 +1,130 @@
+import type { Expression } from "@solidity-parser/parser/dist/src/ast-types"
+import { bounds, evaluate, identifiers, parameters } from "./conditions"
+import {
+  callerGuards,
+  entryPoints,
+  guardConditions,
+  stateWrites,
+  type ContractModel,
+  type FunctionInfo,
+  type StateWrite,
+} from "./model"
+
+// maxTransaction and maxWallet cap token amounts, cooldown is a delay between trades (or the switch
+// that turns it on), tradingEnabled a switch that must be on for anyone to trade
+export type RestrictionKind = "maxTransaction" | "maxWallet" | "cooldown" | "tradingEnabled"
+
+export interface RestrictionVariable {
+  name: string
+  kind: RestrictionKind
+  // Switches are bools, limits and delays uints
+  type: "bool" | "uint"
+  // Public variables can be read through their generated getter
+  public: boolean
+}
+
+export interface SourceRestrictionSetter {
+  function: string
+  modifiers: string[]
+  guarded: boolean
+  // Restriction variables the setter writes
+  variables: string[]
+  kinds: RestrictionKind[]
+  // Whether the setter can configure a restriction so that nobody can trade: a limit of zero,
+  // trading switched off, or a cooldown with no upper limit
+  blocking: boolean
+}
+
+export interface SourceRestrictions {
+  variables: RestrictionVariable[]
+  setters: SourceRestrictionSetter[]
+}
+
+// Supply reads in a lower bound, as in require(amount >= totalSupply() / 1000)
+const SUPPLY_IDENTIFIER = /^_?(total_?supply|[tr]Total)$/i
+
+export function restrictionKind(name: string): RestrictionKind | null {
+  if (/max_?(tx|txn|trans|transaction|buy|sell)/i.test(name)) return "maxTransaction"
+  if (/max_?(wallet|hold)/i.test(name)) return "maxWallet"
+  if (/cooldown/i.test(name)) return "cooldown"
+  if (/trading|trade_?enabled|launched/i.test(name)) return "tradingEnabled"
+  return null
+}
+
+function restrictionVariable(model: ContractModel, name: string): RestrictionVariable | null {
+  const variable = model.stateVariables.get(name)
+  if (!variable || variable.constant || variable.immutable) return null
+  const kind = restrictionKind(name)
+  const type = variable.type === "bool" ? "bool" : variable.type.startsWith("uint") ? "uint" : null
+  if (!kind || !type) return null
+  // Trading switches are bools; a uint named like one is usually the block trading opened in
+  if (kind === "tradingEnabled" && type !== "bool") return null
+  if ((kind === "maxTransaction" || kind === "maxWallet") && type !== "uint") return null
+  return { name, kind, type, public: variable.visibility === "public" }
+}
+
+const isFalse = (expression: Expression) => expression.type === "BooleanLiteral" && expression.value === false
+
+// Whether a write can leave the restriction blocking every trade. Limits set from the input need a
+// positive lower bound (a constant, or a share of the supply), cooldowns set from it an upper bound.
+function blocks(
+  model: ContractModel,
+  variable: RestrictionVariable,
+  write: StateWrite,
+  fromInput: boolean,
+  subjects: Set<string>,
+  conditions: { required: Expression[]; reverting: Expression[] },
+): boolean {
+  const boundsOn = (direction: "upper" | "lower") => [
+    ...conditions.required.flatMap((condition) => bounds(condition, true, subjects, direction)),
+    ...conditions.reverting.flatMap((condition) => bounds(condition, false, subjects, direction)),
+  ]
+
+  if (variable.kind === "tradingEnabled") return fromInput || isFalse(write.value!)
+  if (variable.type === "bool") return false
+  if (variable.kind === "cooldown") return fromInput && boundsOn("upper").length === 0
+
+  if (!fromInput) return evaluate(model, write.value) === 0
+  return !boundsOn("lower").some(({ bound, strict }) => {
+    const value = evaluate(model, bound)
+    if (value !== null) return value > 0 || (strict && value === 0)
+    return identifiers(bound).some((name) => SUPPLY_IDENTIFIER.test(name))
+  })
+}
+
+function toSetter(model: ContractModel, entry: FunctionInfo): SourceRestrictionSetter | null {
+  const writes = stateWrites(model, entry)
+    .filter((write) => write.value !== null && write.operator === "=")
+    .map((write) => ({ write, variable: restrictionVariable(model, write.variable) }))
+    .filter((item): item is { write: StateWrite; variable: RestrictionVariable } => item.variable !== null)
+  if (writes.length === 0) return null
+
+  const conditions = guardConditions(model, entry)
+  const blocking = writes.some(({ write, variable }) => {
+    const inputs = new Set([...parameters(entry), ...parameters(write.function)])
+    const fromInput = identifiers(write.value!).some((name) => inputs.has(name))
+    return blocks(model, variable, write, fromInput, new Set([write.variable, ...inputs]), conditions)
+  })
+
+  return {
+    function: entry.signature,
+    modifiers: entry.modifiers,
+    guarded: callerGuards(model, entry).length > 0,
+    variables: [...new Set(writes.map(({ variable }) => variable.name))],
+    kinds: [...new Set(writes.map(({ variable }) => variable.kind))],
+    blocking,
+  }
+}
+
+export function findRestrictions(model: ContractModel): SourceRestrictions {
+  return {
+    variables: [...model.stateVariables.keys()]
+      .map((name) => restrictionVariable(model, name))
+      .filter((variable): variable is RestrictionVariable => variable !== null),
+    setters: entryPoints(model)
+      // Transfers that flip a launch flag or stamp cooldowns are applying restrictions, not setting them
+      .filter((entry) => !/^(transfer|transferFrom)$/.test(entry.name))
+      .map((entry) => toSetter(model, entry))
+      .filter((setter): setter is SourceRestrictionSetter => setter !== null),
+  }
+}
@@ -0,0 +1,25 @@
+export interface SourceFile {
+  path: string
+  content: string
+}
+
+// Etherscan returns verified source in one of three shapes: a flattened single file, a JSON map of
+// { path: { content } }, or Solidity standard JSON input wrapped in an extra pair of braces.
+export function extractSourceFiles(sourceCode: string, contractName: string): SourceFile[] {
+  const trimmed = sourceCode.trim()
+
+  if (trimmed.startsWith("{")) {
+    try {
+      const json = JSON.parse(trimmed.startsWith("{{") ? trimmed.slice(1, -1) : trimmed)
+      const sources: Record<string, { content?: string }> = json.sources ?? json
+
+      return Object.entries(sources)
+        .filter(([, entry]) => typeof entry?.content === "string")
+        .map(([path, entry]) => ({ path, content: entry.content as string }))
+    } catch {
+      // Not JSON after all, treat it as a flattened file
+    }
+  }
+
+  return [{ path: `${contractName || "Contract"}.sol`, content: sourceCode }]
+}
@@ -0,0 +1,90 @@
+import type { ASTNode, TypeName } from "@solidity-parser/parser/dist/src/ast-types"
+import type { ContractModel } from "./model"
+
+export interface StorageLocation {
+  slot: number
+  // Byte offset within the slot, counted from the right as Solidity packs
+  offset: number
+  size: number
+}
+
+const WORD = 32
+
+// Whole-slot types always start a new slot, and so does whatever follows them
+type Layout = { size: number; fullSlots: boolean } | null
+
+// Bytes a value type takes, or whole slots for mappings, dynamic types and static arrays.
+// null for structs and anything else whose size is not worked out here.
+function layoutOf(model: ContractModel, typeName: TypeName | null): Layout {
+  if (!typeName) return null
+  switch (typeName.type) {
+    case "ElementaryTypeName": {
+      const name = typeName.name
+      if (name === "address") return { size: 20, fullSlots: false }
+      if (name === "bool") return { size: 1, fullSlots: false }
+      if (name === "string" || name === "bytes") return { size: WORD, fullSlots: true }
+      const bits = /^u?int(\d*)$/.exec(name)
+      if (bits) return { size: Number(bits[1] || 256) / 8, fullSlots: false }
+      const bytes = /^bytes(\d+)$/.exec(name)
+      if (bytes) return { size: Number(bytes[1]), fullSlots: false }
+      return null
+    }
+    case "UserDefinedTypeName": {
+      const kind = model.userTypes.get(typeName.namePath.split(".").pop() ?? typeName.namePath)
+      if (kind === "contract") return { size: 20, fullSlots: false }
+      // Enums with up to 256 members, which is all of them in practice
+      if (kind === "enum") return { size: 1, fullSlots: false }
+      return null
+    }
+    case "Mapping":
+      return { size: WORD, fullSlots: true }
+    case "ArrayTypeName": {
+      if (!typeName.length) return { size: WORD, fullSlots: true }
+      const length = "number" in typeName.length ? Number(typeName.length.number) : NaN
+      const element = layoutOf(model, typeName.baseTypeName)
+      if (!element || element.fullSlots || !Number.isFinite(length)) return null
+      const perSlot = Math.floor(WORD / element.size)
+      return { size: Math.ceil(length / perSlot) * WORD, fullSlots: true }
+    }
+    default:
+      return null
+  }
+}
+
+// Storage slots of the deployed contract's state variables, laid out the way the compiler does:
+// most base contract first, in declaration order, packing value types that fit into the current
+// slot. Stops at the first variable whose size is unknown (a struct, say), since everything after
+// it would be guessed.
+export function storageLayout(model: ContractModel): Map<string, StorageLocation> {
+  const layout = new Map<string, StorageLocation>()
+  let slot = 0
+  let offset = 0
+
+  for (const contract of [...model.linearized].reverse()) {
+    for (const node of contract.node.subNodes as ASTNode[]) {
+      if (node.type !== "StateVariableDeclaration") continue
+      for (const variable of node.variables) {
+        if (variable.isDeclaredConst || variable.isImmutable) continue
+        const type = layoutOf(model, variable.typeName)
+        if (!type) return layout
+
+        if (type.fullSlots || offset + type.size > WORD) {
+          if (offset > 0) slot += 1
+          offset = 0
+        }
+        if (variable.name && !layout.has(variable.name)) layout.set(variable.name, { slot, offset, size: type.size })
+        if (type.fullSlots) {
+          slot += type.size / WORD
+        } else {
+          offset += type.size
+          if (offset === WORD) {
+            slot += 1
+            offset = 0
+          }
+        }
+      }
+    }
+  }
+
+  return layout
+}
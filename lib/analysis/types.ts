@@ -0,0 +1,68 @@
+import type { DiamondFacet } from "./diamond"
+import type { SourceAnalysis } from "./solidity"
+
+// Types shared by the source- and bytecode-level analyzers
+
+export type Capability =
+  | "mint"
+  | "pause"
+  | "blacklist"
+  | "proxy"
+  | "fee"
+  | "tradingRestriction"
+  | "balanceManipulation"
+
+// high: read from verified source; medium: inferred from bytecode selectors and opcodes
+export type Confidence = "high" | "medium" | "low"
+
+export interface SourceLocation {
+  file: string
+  line: number
+  column: number
+}
+
+export interface SecurityFinding {
+  capability: Capability
+  contract: string
+  function: string
+  // Modifiers applied to the function, e.g. ["onlyOwner"]
+  modifiers: string[]
+  // Whether a caller check (modifier or msg.sender comparison) restricts who can call it;
+  // null when it cannot be told, e.g. from bytecode
+  guarded: boolean | null
+  // null for bytecode-derived findings
+  location: SourceLocation | null
+  description: string
+  confidence: Confidence
+  // Diamond facet that implements the function, for EIP-2535 diamonds
+  facet?: string
+}
+
+// supply: can mint or change balances; fees: can change transfer fees; transferGating: can pause,
+// blacklist or restrict trading; withdrawal: moves native currency or tokens out of the contract;
+// upgrade: can replace the contract logic; cosmetic: anything else (names, wallets, ownership handover)
+export type PrivilegeCategory = "supply" | "fees" | "transferGating" | "withdrawal" | "upgrade" | "cosmetic"
+
+export interface PrivilegedFunction {
+  contract: string
+  function: string
+  // Checks restricting the caller, e.g. ["onlyOwner"]; empty when read from bytecode, where any
+  // function in the signature database is assumed to be privileged
+  guards: string[]
+  category: PrivilegeCategory
+  // null for bytecode-derived entries
+  location: SourceLocation | null
+  confidence: Confidence
+  // Diamond facet that implements the function, for EIP-2535 diamonds
+  facet?: string
+}
+
+// Code that runs against the token's storage: the token itself, a proxy's implementation or a
+// diamond facet
+export interface LogicContract {
+  address: string
+  // Parsed verified source, null when unverified
+  source: SourceAnalysis | null
+  // Routing of a diamond facet, null outside diamonds
+  facet: DiamondFacet | null
+}
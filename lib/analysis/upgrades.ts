@@ -0,0 +1,189 @@
+import { getAddress, keccak256, toBytes } from "viem"
+import type { LogEntry, Providers } from "@/lib/providers"
+import { analyzeSource, fingerprintFunctions } from "./solidity"
+import type { Capability } from "./types"
+
+export type UpgradeEventType = "upgraded" | "adminChanged" | "beaconUpgraded"
+
+export interface UpgradeEvent {
+  type: UpgradeEventType
+  // Contract that emitted the event: the proxy, or its beacon for beacon proxies
+  emitter: string
+  // New implementation, admin or beacon
+  address: string
+  // Previous admin for adminChanged, null otherwise
+  previous: string | null
+  blockNumber: number
+  // Unix seconds
+  timestamp: number
+  transactionHash: string
+}
+
+export interface ImplementationDiff {
+  from: string
+  to: string
+  // Unix seconds of the upgrade to `to`
+  timestamp: number
+  // Transaction of the Upgraded or BeaconUpgraded event that made `to` live
+  transactionHash: string
+  // External and public function signatures
+  added: string[]
+  removed: string[]
+  // Functions whose code, modifiers or internal callees differ
+  changed: string[]
+  // Capabilities the new implementation has that the old one did not
+  addedCapabilities: Capability[]
+}
+
+export interface UpgradeHistory {
+  events: UpgradeEvent[]
+  // Implementations in the order they went live
+  implementations: Array<{ address: string; since: number; verified: boolean }>
+  // False when a beacon the proxy used has no Upgraded log telling which implementation it pointed to
+  timelineComplete: boolean
+  // One entry per consecutive pair of verified implementations
+  diffs: ImplementationDiff[]
+}
+
+const TOPICS: Record<UpgradeEventType, string> = {
+  upgraded: keccak256(toBytes("Upgraded(address)")),
+  adminChanged: keccak256(toBytes("AdminChanged(address,address)")),
+  beaconUpgraded: keccak256(toBytes("BeaconUpgraded(address)")),
+}
+
+const addressAt = (word: string) => getAddress(`0x${word.slice(-40)}`)
+
+// Upgraded and BeaconUpgraded index the new address; AdminChanged puts both admins in data
+function toUpgradeEvent(type: UpgradeEventType, emitter: string, log: LogEntry): UpgradeEvent {
+  const words = log.data.slice(2).match(/.{64}/g) ?? []
+  return {
+    type,
+    emitter,
+    address: type === "adminChanged" ? addressAt(words[1] ?? "") : addressAt(log.topics[1] ?? ""),
+    previous: type === "adminChanged" ? addressAt(words[0] ?? "") : null,
+    blockNumber: log.blockNumber,
+    timestamp: log.timestamp,
+    transactionHash: log.transactionHash,
+  }
+}
+
+async function readEvents({ logProvider }: Providers, emitter: string, types: UpgradeEventType[]) {
+  const logs = await Promise.all(types.map((type) => logProvider.getLogs(emitter, TOPICS[type])))
+  return types.flatMap((type, index) => logs[index].map((log) => toUpgradeEvent(type, emitter, log)))
+}
+
+const byBlock = (a: UpgradeEvent, b: UpgradeEvent) => a.blockNumber - b.blockNumber
+
+// Implementations a beacon proxy ran, in order. Each BeaconUpgraded switches to a beacon, which then
+// pointed to the implementation of its last Upgraded log at that block; the beacon's later Upgraded
+// logs count until the proxy switches again.
+function beaconTimeline(
+  switches: UpgradeEvent[],
+  beaconUpgrades: Map<string, UpgradeEvent[]>,
+  currentBeacon: string | null,
+): { upgrades: UpgradeEvent[]; complete: boolean } {
+  const periods = switches.map((event, index) => ({
+    beacon: event.address,
+    switched: event as UpgradeEvent | null,
+    until: switches[index + 1]?.blockNumber ?? Infinity,
+  }))
+  // A beacon set without an event has been live since before any log
+  if (periods.length === 0 && currentBeacon) periods.push({ beacon: currentBeacon, switched: null, until: Infinity })
+
+  let complete = true
+  const upgrades = periods.flatMap(({ beacon, switched, until }) => {
+    const logs = beaconUpgrades.get(beacon.toLowerCase()) ?? []
+    const from = switched?.blockNumber ?? -1
+    const later = logs.filter((event) => event.blockNumber > from && event.blockNumber < until)
+    if (!switched) return later
+
+    const pointedTo = logs.filter((event) => event.blockNumber <= from).pop()
+    if (!pointedTo) {
+      complete = false
+      return later
+    }
+    // The switch is when that implementation went live for this proxy
+    return [{ ...switched, address: pointedTo.address }, ...later]
+  })
+  return { upgrades, complete }
+}
+
+// Rebuilds a proxy's upgrade timeline from its Upgraded, AdminChanged and BeaconUpgraded logs (and
+// the Upgraded logs of every beacon it used, for beacon proxies), then diffs each verified
+// implementation against the one it replaced.
+export async function analyzeUpgradeHistory(
+  providers: Providers,
+  proxy: string,
+  beacon: string | null,
+): Promise<UpgradeHistory> {
+  const proxyEvents = (await readEvents(providers, proxy, ["upgraded", "adminChanged", "beaconUpgraded"])).sort(byBlock)
+  const switches = proxyEvents.filter((event) => event.type === "beaconUpgraded")
+  const beacons = [...new Set([...switches.map((event) => event.address), ...(beacon ? [beacon] : [])])]
+  const beaconEvents = await Promise.all(beacons.map((address) => readEvents(providers, address, ["upgraded"])))
+  const beaconUpgrades = new Map(
+    beacons.map((address, index) => [address.toLowerCase(), beaconEvents[index].sort(byBlock)]),
+  )
+
+  const timeline = beaconTimeline(switches, beaconUpgrades, beacon)
+  // Beacon logs are shown for the time the proxy used that beacon
+  const beaconLogs = timeline.upgrades.filter((event) => event.type === "upgraded")
+  const events = [...proxyEvents, ...beaconLogs].sort(byBlock)
+
+  const upgrades = [...proxyEvents.filter((event) => event.type === "upgraded"), ...timeline.upgrades].sort(byBlock)
+  const sources = await Promise.all(
+    upgrades.map((event) =>
+      providers.sourceProvider.getSourceCode(event.address).catch((error) => {
+        console.error(`Error fetching source of implementation ${event.address}:`, error)
+        return null
+      }),
+    ),
+  )
+
+  const diffs: ImplementationDiff[] = []
+  for (let index = 1; index < upgrades.length; index++) {
+    const before = sources[index - 1]
+    const after = sources[index]
+    if (!before || !after) continue
+
+    const oldFunctions = fingerprintFunctions(before)
+    const newFunctions = fingerprintFunctions(after)
+    if (!oldFunctions || !newFunctions) continue
+
+    const capabilities = (source: typeof before) =>
+      new Set(analyzeSource(source)?.findings.map((finding) => finding.capability) ?? [])
+    const oldCapabilities = capabilities(before)
+
+    diffs.push({
+      from: upgrades[index - 1].address,
+      to: upgrades[index].address,
+      timestamp: upgrades[index].timestamp,
+      transactionHash: upgrades[index].transactionHash,
+      added: [...newFunctions.keys()].filter((signature) => !oldFunctions.has(signature)),
+      removed: [...oldFunctions.keys()].filter((signature) => !newFunctions.has(signature)),
+      changed: [...newFunctions.keys()].filter(
+        (signature) => oldFunctions.has(signature) && oldFunctions.get(signature) !== newFunctions.get(signature),
+      ),
+      addedCapabilities: [...capabilities(after)].filter((capability) => !oldCapabilities.has(capability)),
+    })
+  }
+
+  return {
+    events,
+    implementations: upgrades.map((event, index) => ({
+      address: event.address,
+      since: event.timestamp,
+      verified: sources[index] !== null,
+    })),
+    timelineComplete: timeline.complete,
+    diffs,
+  }
+}
+
+export function getDefaultUpgradeHistory(): UpgradeHistory {
+  return {
+    events: [],
+    implementations: [],
+    timelineComplete: true,
+    diffs: [],
+  }
+}
@@ -0,0 +1,349 @@
+// Static per-chain configuration. Kept free of environment lookups so the client can import it
+// for the chain selector; endpoint overrides are applied in lib/providers.
+
+export interface DexConfig {
+  name: string
+  version: "v2" | "v3"
+  factory: string
+  router: string
+  // Pool fee tiers to probe on V3-style factories
+  feeTiers?: number[]
+}
+
+export interface ChainConfig {
+  id: number
+  name: string
+  nativeSymbol: string
+  rpcUrl: string
+  // Tatum RPC gateway network slug, e.g. https://bsc-mainnet.gateway.tatum.io
+  tatumNetwork: string
+  explorerName: string
+  explorerUrl: string
+  // Etherscan V2 multichain API; the chain is selected with the chainid parameter
+  explorerApiUrl: string
+  coingeckoPlatform: string
+  wrappedNative: string
+  stablecoins: string[]
+  dexes: DexConfig[]
+  bluechips: string[]
+}
+
+const ETHERSCAN_V2_API_URL = "https://api.etherscan.io/v2/api"
+const UNISWAP_V3_FEE_TIERS = [100, 500, 3000, 10000]
+const PANCAKESWAP_V3_FEE_TIERS = [100, 500, 2500, 10000]
+
+export const CHAINS: ChainConfig[] = [
+  {
+    id: 1,
+    name: "Ethereum",
+    nativeSymbol: "ETH",
+    rpcUrl: "https://ethereum-rpc.publicnode.com",
+    tatumNetwork: "ethereum-mainnet",
+    explorerName: "Etherscan",
+    explorerUrl: "https://etherscan.io",
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+    coingeckoPlatform: "ethereum",
+    wrappedNative: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+    stablecoins: [
+      // USDC
+      "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+      // USDT
+      "0xdAC17F958D2ee523a2206206994597C13D831ec7",
+      // DAI
+      "0x6B175474E89094C44Da98b954EedeAC495271d0F",
+    ],
+    dexes: [
+      {
+        name: "Uniswap V2",
+        version: "v2",
+        factory: "0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f",
+        router: "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D",
+      },
+      {
+        name: "Uniswap V3",
+        version: "v3",
+        factory: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+        router: "0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45",
+        feeTiers: UNISWAP_V3_FEE_TIERS,
+      },
+      {
+        name: "SushiSwap",
+        version: "v2",
+        factory: "0xC0AEe478e3658e2610c5F7A4A2E1777cE9e4f2Ac",
+        router: "0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F",
+      },
+      {
+        name: "PancakeSwap V2",
+        version: "v2",
+        factory: "0x1097053Fd2ea711dad45caCcc45EfF7548fCB362",
+        router: "0xEfF92A263d31888d860bD50809A8D171709b7b1c",
+      },
+    ],
+    bluechips: [
+      // USDT
+      "0xdAC17F958D2ee523a2206206994597C13D831ec7",
+      // USDC
+      "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+      // WETH
+      "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+      // LINK
+      "0x514910771AF9Ca656af840dff83E8264EcF986CA",
+    ],
+  },
+  {
+    id: 56,
+    name: "BNB Smart Chain",
+    nativeSymbol: "BNB",
+    rpcUrl: "https://bsc-rpc.publicnode.com",
+    tatumNetwork: "bsc-mainnet",
+    explorerName: "BscScan",
+    explorerUrl: "https://bscscan.com",
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+    coingeckoPlatform: "binance-smart-chain",
+    wrappedNative: "0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c",
+    stablecoins: [
+      // USDT
+      "0x55d398326f99059fF775485246999027B3197955",
+      // USDC
+      "0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d",
+      // BUSD
+      "0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56",
+    ],
+    dexes: [
+      {
+        name: "PancakeSwap V2",
+        version: "v2",
+        factory: "0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73",
+        router: "0x10ED43C718714eb63d5aA57B78B54704E256024E",
+      },
+      {
+        name: "PancakeSwap V3",
+        version: "v3",
+        factory: "0x0BFbCF9fa4f9C56B0F40a671Ad40E0805A091865",
+        router: "0x13f4EA83D0bd40E75C8222255bc855a974568Dd4",
+        feeTiers: PANCAKESWAP_V3_FEE_TIERS,
+      },
+      {
+        name: "Uniswap V3",
+        version: "v3",
+        factory: "0xdB1d10011AD0Ff90774D0C6Bb92e5C5c8b4461F7",
+        router: "0xB971eF87ede563556b2ED4b1C0b0019111Dd85d2",
+        feeTiers: UNISWAP_V3_FEE_TIERS,
+      },
+      {
+        name: "SushiSwap",
+        version: "v2",
+        factory: "0xc35DADB65012eC5796536bD9864eD8773aBc74C4",
+        router: "0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506",
+      },
+    ],
+    bluechips: [
+      // WBNB
+      "0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c",
+      // USDT
+      "0x55d398326f99059fF775485246999027B3197955",
+      // USDC
+      "0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d",
+      // BUSD
+      "0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56",
+    ],
+  },
+  {
+    id: 137,
+    name: "Polygon",
+    nativeSymbol: "POL",
+    rpcUrl: "https://polygon-bor-rpc.publicnode.com",
+    tatumNetwork: "polygon-mainnet",
+    explorerName: "PolygonScan",
+    explorerUrl: "https://polygonscan.com",
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+    coingeckoPlatform: "polygon-pos",
+    wrappedNative: "0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270",
+    stablecoins: [
+      // USDC
+      "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
+      // USDC.e
+      "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174",
+      // USDT
+      "0xc2132D05D31c914a87C6611C10748AEb04B58e8F",
+      // DAI
+      "0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063",
+    ],
+    dexes: [
+      {
+        name: "QuickSwap",
+        version: "v2",
+        factory: "0x5757371414417b8C6CAad45bAeF941aBc7d3Ab32",
+        router: "0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff",
+      },
+      {
+        name: "Uniswap V3",
+        version: "v3",
+        factory: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+        router: "0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45",
+        feeTiers: UNISWAP_V3_FEE_TIERS,
+      },
+      {
+        name: "SushiSwap",
+        version: "v2",
+        factory: "0xc35DADB65012eC5796536bD9864eD8773aBc74C4",
+        router: "0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506",
+      },
+    ],
+    bluechips: [
+      // WPOL
+      "0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270",
+      // USDC
+      "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
+      // USDT
+      "0xc2132D05D31c914a87C6611C10748AEb04B58e8F",
+    ],
+  },
+  {
+    id: 42161,
+    name: "Arbitrum One",
+    nativeSymbol: "ETH",
+    rpcUrl: "https://arbitrum-one-rpc.publicnode.com",
+    tatumNetwork: "arb-one-mainnet",
+    explorerName: "Arbiscan",
+    explorerUrl: "https://arbiscan.io",
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+    coingeckoPlatform: "arbitrum-one",
+    wrappedNative: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+    stablecoins: [
+      // USDC
+      "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+      // USDC.e
+      "0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8",
+      // USDT
+      "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9",
+    ],
+    dexes: [
+      {
+        name: "Uniswap V3",
+        version: "v3",
+        factory: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+        router: "0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45",
+        feeTiers: UNISWAP_V3_FEE_TIERS,
+      },
+      {
+        name: "Uniswap V2",
+        version: "v2",
+        factory: "0xf1D7CC64Fb4452F05c498126312eBE29f30Fbcf9",
+        router: "0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24",
+      },
+      {
+        name: "SushiSwap",
+        version: "v2",
+        factory: "0xc35DADB65012eC5796536bD9864eD8773aBc74C4",
+        router: "0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506",
+      },
+    ],
+    bluechips: [
+      // WETH
+      "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+      // USDC
+      "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+      // USDT
+      "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9",
+      // ARB
+      "0x912CE59144191C1204E64559FE8253a0e49E6548",
+    ],
+  },
+  {
+    id: 8453,
+    name: "Base",
+    nativeSymbol: "ETH",
+    rpcUrl: "https://base-rpc.publicnode.com",
+    tatumNetwork: "base-mainnet",
+    explorerName: "BaseScan",
+    explorerUrl: "https://basescan.org",
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+    coingeckoPlatform: "base",
+    wrappedNative: "0x4200000000000000000000000000000000000006",
+    stablecoins: [
+      // USDC
+      "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+      // USDbC
+      "0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA",
+    ],
+    dexes: [
+      {
+        name: "Uniswap V3",
+        version: "v3",
+        factory: "0x33128a8fC17869897dcE68Ed026d694621f6FDfD",
+        router: "0x2626664c2603336E57B271c5C0b26F421741e481",
+        feeTiers: UNISWAP_V3_FEE_TIERS,
+      },
+      {
+        name: "Uniswap V2",
+        version: "v2",
+        factory: "0x8909Dc15e40173Ff4699343b6eB8132c65e18eC6",
+        router: "0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24",
+      },
+      {
+        name: "SushiSwap",
+        version: "v2",
+        factory: "0x71524B4f93c58fcbF659783284E38825f0622859",
+        router: "0x6BDED42c6DA8FBf0d2bA55B2fa120C5e0c8D7891",
+      },
+    ],
+    bluechips: [
+      // WETH
+      "0x4200000000000000000000000000000000000006",
+      // USDC
+      "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+    ],
+  },
+  {
+    id: 10,
+    name: "Optimism",
+    nativeSymbol: "ETH",
+    rpcUrl: "https://optimism-rpc.publicnode.com",
+    tatumNetwork: "optimism-mainnet",
+    explorerName: "Optimistic Etherscan",
+    explorerUrl: "https://optimistic.etherscan.io",
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+    coingeckoPlatform: "optimistic-ethereum",
+    wrappedNative: "0x4200000000000000000000000000000000000006",
+    stablecoins: [
+      // USDC
+      "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85",
+      // USDC.e
+      "0x7F5c764cBc14f9669B88837ca1490cCa17c31607",
+      // USDT
+      "0x94b008aA00579c1307B0EF2c499aD98a8ce58e58",
+      // DAI
+      "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1",
+    ],
+    dexes: [
+      {
+        name: "Uniswap V3",
+        version: "v3",
+        factory: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+        router: "0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45",
+        feeTiers: UNISWAP_V3_FEE_TIERS,
+      },
+      {
+        name: "Uniswap V2",
+        version: "v2",
+        factory: "0x0c3c1c532F1e39EdF36BE9Fe0bE1410313E074Bf",
+        router: "0x4A7b5Da61326A6379179b40d00F57E5bbDC962c2",
+      },
+    ],
+    bluechips: [
+      // WETH
+      "0x4200000000000000000000000000000000000006",
+      // USDC
+      "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85",
+      // OP
+      "0x4200000000000000000000000000000000000042",
+    ],
+  },
+]
+
+export const DEFAULT_CHAIN_ID = 1
+
+export function getChain(chainId: number): ChainConfig | undefined {
+  return CHAINS.find((chain) => chain.id === chainId)
+}
@@ -0,0 +1,36 @@
+import type { MarketProvider } from "./types"
+
+interface CoinGeckoConfig {
+  baseUrl: string
+  // Asset platform id, e.g. "ethereum" or "binance-smart-chain"
+  platform: string
+}
+
+export function createCoinGeckoMarketProvider({ baseUrl, platform }: CoinGeckoConfig): MarketProvider {
+  return {
+    async getMarketData(contractAddress) {
+      const response = await fetch(`${baseUrl}/coins/${platform}/contract/${contractAddress.toLowerCase()}`)
+
+      if (!response.ok) {
+        console.log("Token not found on CoinGecko")
+        return null
+      }
+
+      const coinData = await response.json()
+
+      return {
+        price: coinData.market_data?.current_price?.usd || 0,
+        marketCap: coinData.market_data?.market_cap?.usd || 0,
+        volume24h: coinData.market_data?.total_volume?.usd || 0,
+        priceChange24h: coinData.market_data?.price_change_percentage_24h || 0,
+        circulatingSupply: coinData.market_data?.circulating_supply || 0,
+        totalSupply: coinData.market_data?.total_supply || 0,
+        maxSupply: coinData.market_data?.max_supply || null,
+        ath: coinData.market_data?.ath?.usd || 0,
+        athChangePercentage: coinData.market_data?.ath_change_percentage?.usd || 0,
+        atl: coinData.market_data?.atl?.usd || 0,
+        atlChangePercentage: coinData.market_data?.atl_change_percentage?.usd || 0,
+      }
+    },
+  }
+}
@@ -0,0 +1,176 @@
+import type { AccountProvider, AccountTransaction, HolderProvider, LogEntry, LogProvider, SourceProvider } from "./types"
+
+interface EtherscanConfig {
+  baseUrl: string
+  apiKey: string
+  chainId: number
+}
+
+// Free keys are limited per second, so a rate-limited call is worth retrying after a pause
+const RATE_LIMIT_RETRIES = 2
+const RATE_LIMIT_DELAY_MS = 1000
+// Most records getLogs returns per call
+const LOGS_PAGE_SIZE = 1000
+
+// Calls an API action. Errors come back as status "0" with the message in a string result
+// ("Max rate limit reached", "Invalid API Key"); they are thrown, not passed off as empty results.
+async function query(url: string, action: string): Promise<any> {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(url)
+    if (!response.ok) throw new Error(`Etherscan ${action} failed: ${response.status}`)
+
+    const data = await response.json()
+    const rateLimited = data.status === "0" && /rate limit/i.test(String(data.result))
+    if (!rateLimited) return data
+    if (attempt >= RATE_LIMIT_RETRIES) throw new Error(`Etherscan ${action} failed: ${data.result}`)
+    await new Promise((resolve) => setTimeout(resolve, RATE_LIMIT_DELAY_MS))
+  }
+}
+
+// "No records found" and "No transactions found" come back as status "0" too, with an empty list
+function listOf(data: any, action: string): any[] {
+  if (Array.isArray(data.result)) return data.result
+  if (/^No (records|transactions) found/i.test(data.message ?? "")) return []
+  throw new Error(`Etherscan ${action} failed: ${data.result ?? data.message}`)
+}
+
+export function createEtherscanSourceProvider({ baseUrl, apiKey, chainId }: EtherscanConfig): SourceProvider {
+  return {
+    async getSourceCode(contractAddress) {
+      const data = await query(
+        `${baseUrl}?chainid=${chainId}&module=contract&action=getsourcecode&address=${contractAddress}&apikey=${apiKey}`,
+        "getsourcecode",
+      )
+      const entry = listOf(data, "getsourcecode")[0]
+      if (!entry?.SourceCode) return null
+
+      return {
+        sourceCode: entry.SourceCode,
+        contractName: entry.ContractName || "",
+        abi: entry.ABI || "",
+      }
+    },
+
+    async getContractCreation(contractAddress) {
+      const data = await query(
+        `${baseUrl}?chainid=${chainId}&module=contract&action=getcontractcreation&contractaddresses=${contractAddress}&apikey=${apiKey}`,
+        "getcontractcreation",
+      )
+      // Addresses that are not contracts come back as status "0" with a null result
+      const entry = data.result === null ? null : listOf(data, "getcontractcreation")[0]
+      if (!entry?.contractCreator) return null
+
+      return {
+        creator: entry.contractCreator,
+        txHash: entry.txHash,
+        // Only reported by the V2 API
+        blockNumber: entry.blockNumber ? Number(entry.blockNumber) : null,
+        timestamp: entry.timestamp ? Number(entry.timestamp) : null,
+      }
+    },
+  }
+}
+
+export function createEtherscanHolderProvider({ baseUrl, apiKey, chainId }: EtherscanConfig): HolderProvider {
+  return {
+    async getTopHolders(contractAddress, limit) {
+      const response = await fetch(
+        `${baseUrl}?chainid=${chainId}&module=token&action=tokenholderlist&contractaddress=${contractAddress}&page=1&offset=${limit}&apikey=${apiKey}`,
+      )
+      if (!response.ok) return null
+
+      const data = await response.json()
+      if (data.status !== "1" || !Array.isArray(data.result)) return null
+
+      return data.result.map((holder: any) => ({
+        address: holder.TokenHolderAddress,
+        balance: Number.parseFloat(holder.TokenHolderQuantity || "0"),
+      }))
+    },
+
+    async getHolderCount(contractAddress) {
+      const response = await fetch(
+        `${baseUrl}?chainid=${chainId}&module=token&action=tokenholdercount&contractaddress=${contractAddress}&apikey=${apiKey}`,
+      )
+      if (!response.ok) return null
+
+      const data = await response.json()
+      const count = Number(data.result)
+      if (data.status !== "1" || !Number.isFinite(count)) return null
+
+      return { count, source: "etherscan" }
+    },
+  }
+}
+
+export function createEtherscanLogProvider({ baseUrl, apiKey, chainId }: EtherscanConfig): LogProvider {
+  return {
+    // Pages through the results a block range at a time: a full page may end partway through a
+    // block, so its last block is dropped and the next page starts there
+    async getLogs(address, topic0, filter = {}) {
+      const topics = [
+        filter.topic1 ? `&topic0_1_opr=and&topic1=${filter.topic1}` : "",
+        filter.topic2 ? `&topic0_2_opr=and&topic2=${filter.topic2}` : "",
+        filter.topic1 && filter.topic2 ? "&topic1_2_opr=and" : "",
+      ].join("")
+      const limit = filter.limit ?? Infinity
+      const pageSize = Math.min(LOGS_PAGE_SIZE, limit)
+      const logs: LogEntry[] = []
+      let fromBlock = filter.fromBlock ?? 0
+
+      for (;;) {
+        const data = await query(
+          `${baseUrl}?chainid=${chainId}&module=logs&action=getLogs&address=${address}&topic0=${topic0}${topics}&fromBlock=${fromBlock}&toBlock=${filter.toBlock ?? "latest"}&page=1&offset=${pageSize}&apikey=${apiKey}`,
+          "getLogs",
+        )
+        const page: LogEntry[] = listOf(data, "getLogs").map((log: any) => ({
+          blockNumber: Number.parseInt(log.blockNumber, 16),
+          timestamp: Number.parseInt(log.timeStamp, 16),
+          transactionHash: log.transactionHash,
+          topics: log.topics,
+          data: log.data,
+        }))
+        if (page.length < pageSize || logs.length + page.length >= limit) {
+          logs.push(...page)
+          break
+        }
+
+        const lastBlock = page[page.length - 1].blockNumber
+        const complete = page.filter((log) => log.blockNumber < lastBlock)
+        if (complete.length === 0) throw new Error(`Etherscan getLogs: more than ${pageSize} logs in block ${lastBlock}`)
+        logs.push(...complete)
+        fromBlock = lastBlock
+      }
+
+      return logs.slice(0, limit)
+    },
+  }
+}
+
+function toAccountTransaction(tx: any): AccountTransaction {
+  return {
+    hash: tx.hash,
+    blockNumber: Number(tx.blockNumber),
+    timestamp: Number(tx.timeStamp),
+    from: tx.from,
+    to: tx.to || null,
+    value: BigInt(tx.value || 0),
+    contractAddress: tx.contractAddress || null,
+    isError: tx.isError === "1",
+  }
+}
+
+export function createEtherscanAccountProvider({ baseUrl, apiKey, chainId }: EtherscanConfig): AccountProvider {
+  const list = async (action: string, address: string, limit: number) => {
+    const data = await query(
+      `${baseUrl}?chainid=${chainId}&module=account&action=${action}&address=${address}&startblock=0&endblock=99999999&page=1&offset=${limit}&sort=asc&apikey=${apiKey}`,
+      action,
+    )
+    return listOf(data, action).map(toAccountTransaction)
+  }
+
+  return {
+    getTransactions: (address, limit) => list("txlist", address, limit),
+    getInternalTransactions: (address, limit) => list("txlistinternal", address, limit),
+  }
+}
@@ -0,0 +1,33 @@
+import type { HolderProvider } from "./types"
+
+interface EthplorerConfig {
+  baseUrl: string
+  apiKey: string
+}
+
+export function createEthplorerHolderProvider({ baseUrl, apiKey }: EthplorerConfig): HolderProvider {
+  return {
+    async getTopHolders(contractAddress, limit) {
+      const response = await fetch(`${baseUrl}/getTopTokenHolders/${contractAddress}?apiKey=${apiKey}&limit=${limit}`)
+      if (!response.ok) return null
+
+      const data = await response.json()
+      if (!Array.isArray(data?.holders)) return null
+
+      return data.holders.map((holder: any) => ({
+        address: holder.address,
+        balance: Number.parseFloat(holder.balance) || 0,
+      }))
+    },
+
+    async getHolderCount(contractAddress) {
+      const response = await fetch(`${baseUrl}/getTokenInfo/${contractAddress}?apiKey=${apiKey}`)
+      if (!response.ok) return null
+
+      const data = await response.json()
+      if (typeof data?.holdersCount !== "number") return null
+
+      return { count: data.holdersCount, source: "ethplorer" }
+    },
+  }
+}
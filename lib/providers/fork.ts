@@ -0,0 +1,170 @@
+import {
+  createTestClient,
+  erc20Abi,
+  http,
+  maxUint256,
+  parseEther,
+  publicActions,
+  walletActions,
+  type Address,
+  type BaseError,
+  type Hash,
+} from "viem"
+import { generatePrivateKey, privateKeyToAddress } from "viem/accounts"
+import { uniswapV2RouterAbi } from "@/lib/abis"
+import type { SwapSimulation, SwapSimulationRequest, TradeSimulator } from "./types"
+
+interface ForkConfig {
+  url: string
+  mode: "anvil" | "hardhat"
+}
+
+// Pending simulations per fork node URL. Providers are built per request, so the queue lives here
+// for every simulator pointed at the same node to share it.
+const queues = new Map<string, Promise<unknown>>()
+
+// Trades against a local fork node (`anvil --fork-url ...` or `hardhat node --fork ...`). Every
+// simulation runs inside an EVM snapshot that is reverted afterwards, so the fork stays pristine.
+// Simulations share the node, so they run one at a time: a revert would otherwise undo another
+// request's trades mid-flight or drop the snapshot it is about to revert to.
+export function createForkTradeSimulator({ url, mode }: ForkConfig): TradeSimulator {
+  const client = createTestClient({ mode, transport: http(url) })
+    .extend(publicActions)
+    .extend(walletActions)
+
+  async function send(hash: Promise<Hash>) {
+    const receipt = await client.waitForTransactionReceipt({ hash: await hash })
+    if (receipt.status !== "success") throw new Error("Transaction reverted")
+    return receipt
+  }
+
+  async function freshWallet(): Promise<Address> {
+    const address = privateKeyToAddress(generatePrivateKey())
+    await client.setBalance({ address, value: parseEther("1000") })
+    await client.impersonateAccount({ address })
+    return address
+  }
+
+  async function simulate({ token, router, wrappedNative, amountIn }: SwapSimulationRequest) {
+    const result: SwapSimulation = {
+      canBuy: false,
+      canSell: false,
+      canTransfer: null,
+      transferError: null,
+      buyTax: null,
+      sellTax: null,
+      transferTax: null,
+      gasUsed: { buy: null, sell: null, transfer: null },
+      error: null,
+    }
+    const tokenAddress = token as Address
+    const routerAddress = router as Address
+    const buyPath = [wrappedNative as Address, tokenAddress]
+    const sellPath = [tokenAddress, wrappedNative as Address]
+    const balanceOf = (account: Address) =>
+      client.readContract({ address: tokenAddress, abi: erc20Abi, functionName: "balanceOf", args: [account] })
+    const amountOut = async (amount: bigint, path: Address[]) =>
+      (await client.readContract({ address: routerAddress, abi: uniswapV2RouterAbi, functionName: "getAmountsOut", args: [amount, path] })).at(-1)!
+
+    const snapshot = await client.snapshot()
+    let stage = "buy"
+
+    try {
+      const trader = await freshWallet()
+      const recipient = await freshWallet()
+
+      // Buy
+      const expectedBought = await amountOut(amountIn, buyPath)
+      const buyReceipt = await send(
+        client.writeContract({
+          account: trader,
+          chain: null,
+          address: routerAddress,
+          abi: uniswapV2RouterAbi,
+          functionName: "swapExactETHForTokensSupportingFeeOnTransferTokens",
+          args: [BigInt(0), buyPath, trader, maxUint256],
+          value: amountIn,
+        }),
+      )
+      const bought = await balanceOf(trader)
+      result.canBuy = bought > BigInt(0)
+      result.buyTax = taxPercent(expectedBought, bought)
+      result.gasUsed.buy = Number(buyReceipt.gasUsed)
+
+      // Wallet-to-wallet transfer of a tenth of the bag; a revert here is reported on its own
+      const transferAmount = bought / BigInt(10)
+      try {
+        const transferReceipt = await send(
+          client.writeContract({
+            account: trader,
+            chain: null,
+            address: tokenAddress,
+            abi: erc20Abi,
+            functionName: "transfer",
+            args: [recipient, transferAmount],
+          }),
+        )
+        result.canTransfer = true
+        result.transferTax = taxPercent(transferAmount, await balanceOf(recipient))
+        result.gasUsed.transfer = Number(transferReceipt.gasUsed)
+      } catch (error) {
+        result.canTransfer = false
+        result.transferError = `transfer failed: ${reason(error)}`
+      }
+
+      // Sell the rest back to the pool
+      stage = "sell"
+      const sellAmount = await balanceOf(trader)
+      await send(
+        client.writeContract({
+          account: trader,
+          chain: null,
+          address: tokenAddress,
+          abi: erc20Abi,
+          functionName: "approve",
+          args: [routerAddress, maxUint256],
+        }),
+      )
+      const expectedProceeds = await amountOut(sellAmount, sellPath)
+      const balanceBefore = await client.getBalance({ address: trader })
+      const sellReceipt = await send(
+        client.writeContract({
+          account: trader,
+          chain: null,
+          address: routerAddress,
+          abi: uniswapV2RouterAbi,
+          functionName: "swapExactTokensForETHSupportingFeeOnTransferTokens",
+          args: [sellAmount, BigInt(0), sellPath, trader, maxUint256],
+        }),
+      )
+      const gasCost = sellReceipt.gasUsed * sellReceipt.effectiveGasPrice
+      const proceeds = (await client.getBalance({ address: trader })) - balanceBefore + gasCost
+      result.canSell = proceeds > BigInt(0)
+      result.sellTax = taxPercent(expectedProceeds, proceeds)
+      result.gasUsed.sell = Number(sellReceipt.gasUsed)
+    } catch (error) {
+      result.error = `${stage} failed: ${reason(error)}`
+    } finally {
+      await client.revert({ id: snapshot })
+    }
+
+    return result
+  }
+
+  return {
+    simulateSwap(request) {
+      const run = (queues.get(url) ?? Promise.resolve()).then(() => simulate(request))
+      queues.set(url, run.catch(() => undefined))
+      return run
+    },
+  }
+}
+
+const reason = (error: unknown) => (error as BaseError).shortMessage ?? (error as Error).message
+
+// Share of the expected amount that did not arrive, as a percentage
+function taxPercent(expected: bigint, received: bigint): number {
+  if (expected <= BigInt(0)) return 0
+  const lost = expected > received ? expected - received : BigInt(0)
+  return Number((lost * BigInt(10000)) / expected) / 100
+}
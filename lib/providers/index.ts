@@ -0,0 +1,174 @@
+import type { ChainConfig } from "@/lib/chains"
+import { createCoinGeckoMarketProvider } from "./coingecko"
+import {
+  createEtherscanAccountProvider,
+  createEtherscanHolderProvider,
+  createEtherscanLogProvider,
+  createEtherscanSourceProvider,
+} from "./etherscan"
+import { createEthplorerHolderProvider } from "./ethplorer"
+import { createForkTradeSimulator } from "./fork"
+import { createRpcContractReader, createRpcLogProvider } from "./rpc"
+import type {
+  AccountProvider,
+  ContractReader,
+  HolderProvider,
+  LogProvider,
+  MarketProvider,
+  Providers,
+  SourceProvider,
+  TradeSimulator,
+} from "./types"
+
+export type {
+  AccountProvider,
+  AccountTransaction,
+  ContractCall,
+  ContractCreation,
+  ContractReader,
+  HolderCount,
+  HolderProvider,
+  LogEntry,
+  LogFilter,
+  LogProvider,
+  MarketData,
+  MarketProvider,
+  Providers,
+  SourceProvider,
+  SwapSimulation,
+  SwapSimulationRequest,
+  TokenHolder,
+  TradeSimulator,
+  VerifiedSource,
+} from "./types"
+
+// Providers are selected by name through environment variables, e.g.
+//   CONTRACT_READER=rpc                   (RPC_URL_<chainId>, e.g. RPC_URL_1=http://127.0.0.1:8545 for a local anvil/hardhat node)
+//   SOURCE_PROVIDER=etherscan
+//   MARKET_PROVIDER=coingecko
+//   HOLDER_PROVIDER=etherscan,ethplorer   (tried in order until one returns holders)
+//   LOG_PROVIDER=etherscan                (or rpc, which needs a node that serves eth_getLogs over all history)
+//   ACCOUNT_PROVIDER=etherscan
+//   TRADE_SIMULATOR=anvil                 (SIMULATION_RPC_URL_<chainId>, a local fork of that chain)
+// Every base URL can be overridden as well, so a local stub server can stand in for any upstream API.
+// Chain-specific defaults (public RPC, explorer API, CoinGecko platform) come from lib/chains.
+
+function env(name: string, fallback: string): string {
+  return process.env[name] || fallback
+}
+
+function etherscanConfig(chain: ChainConfig) {
+  return {
+    baseUrl: env("ETHERSCAN_BASE_URL", chain.explorerApiUrl),
+    apiKey: env("ETHERSCAN_API_KEY", "YourApiKeyToken"),
+    chainId: chain.id,
+  }
+}
+
+const contractReaders: Record<string, (chain: ChainConfig) => ContractReader> = {
+  rpc: (chain) => createRpcContractReader({ url: env(`RPC_URL_${chain.id}`, chain.rpcUrl) }),
+  // Tatum's RPC gateway speaks plain JSON-RPC, authenticated with the API key header
+  tatum: (chain) =>
+    createRpcContractReader({
+      url: env(`TATUM_RPC_URL_${chain.id}`, `https://${chain.tatumNetwork}.gateway.tatum.io`),
+      headers: { "x-api-key": env("TATUM_API_KEY", "your-tatum-api-key") },
+    }),
+}
+
+const sourceProviders: Record<string, (chain: ChainConfig) => SourceProvider> = {
+  etherscan: (chain) => createEtherscanSourceProvider(etherscanConfig(chain)),
+}
+
+const marketProviders: Record<string, (chain: ChainConfig) => MarketProvider> = {
+  coingecko: (chain) =>
+    createCoinGeckoMarketProvider({
+      baseUrl: env("COINGECKO_BASE_URL", "https://api.coingecko.com/api/v3"),
+      platform: chain.coingeckoPlatform,
+    }),
+}
+
+// Factories return null for chains the provider does not cover
+const holderProviders: Record<string, (chain: ChainConfig) => HolderProvider | null> = {
+  etherscan: (chain) => createEtherscanHolderProvider(etherscanConfig(chain)),
+  ethplorer: (chain) =>
+    chain.id === 1
+      ? createEthplorerHolderProvider({
+          baseUrl: env("ETHPLORER_BASE_URL", "https://api.ethplorer.io"),
+          apiKey: env("ETHPLORER_API_KEY", "freekey"),
+        })
+      : null,
+}
+
+const logProviders: Record<string, (chain: ChainConfig) => LogProvider> = {
+  etherscan: (chain) => createEtherscanLogProvider(etherscanConfig(chain)),
+  rpc: (chain) => createRpcLogProvider({ url: env(`RPC_URL_${chain.id}`, chain.rpcUrl) }),
+}
+
+const accountProviders: Record<string, (chain: ChainConfig) => AccountProvider> = {
+  etherscan: (chain) => createEtherscanAccountProvider(etherscanConfig(chain)),
+}
+
+// Simulators need a fork node per chain and are disabled when none is configured
+const tradeSimulators: Record<string, (chain: ChainConfig) => TradeSimulator | null> = {
+  anvil: (chain) => {
+    const url = process.env[`SIMULATION_RPC_URL_${chain.id}`]
+    return url ? createForkTradeSimulator({ url, mode: "anvil" }) : null
+  },
+  hardhat: (chain) => {
+    const url = process.env[`SIMULATION_RPC_URL_${chain.id}`]
+    return url ? createForkTradeSimulator({ url, mode: "hardhat" }) : null
+  },
+}
+
+function select<T>(kind: string, registry: Record<string, (chain: ChainConfig) => T>, name: string, chain: ChainConfig): T {
+  const factory = registry[name.trim()]
+  if (!factory) {
+    throw new Error(`Unknown ${kind} "${name}". Available: ${Object.keys(registry).join(", ")}`)
+  }
+  return factory(chain)
+}
+
+// Tries each provider in order and returns the first non-empty holder list or count
+function withHolderFallback(providers: HolderProvider[]): HolderProvider {
+  return {
+    async getTopHolders(contractAddress, limit) {
+      for (const provider of providers) {
+        try {
+          const holders = await provider.getTopHolders(contractAddress, limit)
+          if (holders && holders.length > 0) return holders
+        } catch (error) {
+          console.error("Error fetching token holders:", error)
+        }
+      }
+      return null
+    },
+    async getHolderCount(contractAddress) {
+      for (const provider of providers) {
+        try {
+          const count = await provider.getHolderCount(contractAddress)
+          if (count) return count
+        } catch (error) {
+          console.error("Error fetching holder count:", error)
+        }
+      }
+      return null
+    },
+  }
+}
+
+export function getProviders(chain: ChainConfig): Providers {
+  return {
+    contractReader: select("CONTRACT_READER", contractReaders, env("CONTRACT_READER", "rpc"), chain),
+    sourceProvider: select("SOURCE_PROVIDER", sourceProviders, env("SOURCE_PROVIDER", "etherscan"), chain),
+    marketProvider: select("MARKET_PROVIDER", marketProviders, env("MARKET_PROVIDER", "coingecko"), chain),
+    holderProvider: withHolderFallback(
+      env("HOLDER_PROVIDER", "etherscan,ethplorer")
+        .split(",")
+        .map((name) => select("HOLDER_PROVIDER", holderProviders, name, chain))
+        .filter((provider): provider is HolderProvider => provider !== null),
+    ),
+    logProvider: select("LOG_PROVIDER", logProviders, env("LOG_PROVIDER", "etherscan"), chain),
+    accountProvider: select("ACCOUNT_PROVIDER", accountProviders, env("ACCOUNT_PROVIDER", "etherscan"), chain),
+    tradeSimulator: select("TRADE_SIMULATOR", tradeSimulators, env("TRADE_SIMULATOR", "anvil"), chain),
+  }
+}
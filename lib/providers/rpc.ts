@@ -0,0 +1,106 @@
+import {
+  createPublicClient,
+  decodeFunctionResult,
+  encodeFunctionData,
+  getAbiItem,
+  hexToBigInt,
+  hexToString,
+  http,
+  size,
+  toHex,
+  zeroHash,
+  type AbiFunction,
+  type Address,
+  type Hex,
+} from "viem"
+import type { ContractCall, ContractReader, LogProvider } from "./types"
+
+interface RpcConfig {
+  url: string
+  headers?: Record<string, string>
+}
+
+// Reads contracts with plain eth_call against any JSON-RPC endpoint (public node, paid provider,
+// local anvil/hardhat). Calls issued in the same tick are sent as one JSON-RPC batch request,
+// so an analysis that fires its reads together costs a single round trip.
+export function createRpcContractReader({ url, headers }: RpcConfig): ContractReader {
+  const client = createPublicClient({
+    transport: http(url, { batch: true, fetchOptions: { headers } }),
+  })
+
+  async function readContract(call: ContractCall): Promise<unknown> {
+    try {
+      const { data } = await client.call({
+        to: call.address as Address,
+        data: encodeFunctionData({ abi: call.abi, functionName: call.functionName, args: call.args }),
+      })
+      if (!data || data === "0x") return null
+
+      return decodeResult(call, data)
+    } catch {
+      // Reverts and missing methods are expected for optional interfaces
+      return null
+    }
+  }
+
+  return {
+    readContract,
+    readContracts: (calls) => Promise.all(calls.map(readContract)),
+    getCode: async (address) => (await client.getCode({ address: address as Address })) ?? "0x",
+    getStorageAt: async (address, slot) =>
+      (await client.getStorageAt({ address: address as Address, slot: slot as Hex })) ?? zeroHash,
+  }
+}
+
+// eth_getLogs over the whole chain history. Many public nodes cap the block range, so this suits a
+// local or archive node best; block timestamps are fetched once per block.
+export function createRpcLogProvider({ url, headers }: RpcConfig): LogProvider {
+  const client = createPublicClient({
+    transport: http(url, { batch: true, fetchOptions: { headers } }),
+  })
+
+  return {
+    async getLogs(address, topic0, filter = {}) {
+      const logs = await client.request({
+        method: "eth_getLogs",
+        params: [
+          {
+            address: address as Address,
+            topics: filter.topic2
+              ? [topic0 as Hex, (filter.topic1 ?? null) as Hex | null, filter.topic2 as Hex]
+              : filter.topic1
+                ? [topic0 as Hex, filter.topic1 as Hex]
+                : [topic0 as Hex],
+            fromBlock: filter.fromBlock !== undefined ? toHex(filter.fromBlock) : "earliest",
+            toBlock: filter.toBlock !== undefined ? toHex(filter.toBlock) : "latest",
+          },
+        ],
+      })
+      const limited = logs.slice(0, filter.limit ?? logs.length)
+      const blockNumbers = [...new Set(limited.map((log) => log.blockNumber!))]
+      const blocks = await Promise.all(blockNumbers.map((blockNumber) => client.getBlock({ blockNumber: hexToBigInt(blockNumber) })))
+      const timestamps = new Map(blockNumbers.map((blockNumber, index) => [blockNumber, Number(blocks[index].timestamp)]))
+
+      return limited.map((log) => ({
+        blockNumber: Number(hexToBigInt(log.blockNumber!)),
+        timestamp: timestamps.get(log.blockNumber!)!,
+        transactionHash: log.transactionHash!,
+        topics: [...log.topics],
+        data: log.data,
+      }))
+    },
+  }
+}
+
+function decodeResult(call: ContractCall, data: Hex): unknown {
+  try {
+    return decodeFunctionResult({ abi: call.abi, functionName: call.functionName, data })
+  } catch (error) {
+    // Older tokens (e.g. MKR, SAI) return name()/symbol() as bytes32 instead of string
+    const item = getAbiItem({ abi: call.abi, name: call.functionName }) as AbiFunction | undefined
+    if (item?.outputs.length === 1 && item.outputs[0].type === "string" && size(data) === 32) {
+      return hexToString(data, { size: 32 })
+    }
+    throw error
+  }
+}
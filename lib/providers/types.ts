@@ -0,0 +1,171 @@
+import type { Abi } from "viem"
+
+// Data-provider interfaces used by the analyze-token route. Each upstream API
+// (JSON-RPC nodes, Etherscan, CoinGecko, Ethplorer, ...) implements one or more of these
+// so the route never talks to a specific vendor directly.
+
+export interface MarketData {
+  price: number
+  marketCap: number
+  volume24h: number
+  priceChange24h: number
+  circulatingSupply: number
+  totalSupply: number
+  maxSupply: number | null
+  ath: number
+  athChangePercentage: number
+  atl: number
+  atlChangePercentage: number
+}
+
+export interface VerifiedSource {
+  sourceCode: string
+  contractName: string
+  abi: string
+}
+
+export interface ContractCreation {
+  creator: string
+  txHash: string
+  // Creation block and its Unix timestamp, null when the provider does not report them
+  blockNumber: number | null
+  timestamp: number | null
+}
+
+export interface AccountTransaction {
+  hash: string
+  blockNumber: number
+  // Unix seconds
+  timestamp: number
+  from: string
+  // null for contract creations
+  to: string | null
+  // Native amount in wei
+  value: bigint
+  // Address of the contract a creation deployed, null otherwise
+  contractAddress: string | null
+  isError: boolean
+}
+
+export interface TokenHolder {
+  address: string
+  // Raw balance in the token's smallest unit
+  balance: number
+}
+
+export interface HolderCount {
+  count: number
+  // Provider that reported it, e.g. "ethplorer"
+  source: string
+}
+
+export interface ContractCall {
+  address: string
+  abi: Abi
+  functionName: string
+  args?: readonly unknown[]
+}
+
+export interface ContractReader {
+  // Returns the decoded result, or null when the call reverts or the method does not exist
+  readContract(call: ContractCall): Promise<unknown>
+  // Same as readContract for several calls, sent together in one round trip
+  readContracts(calls: ContractCall[]): Promise<unknown[]>
+  // Deployed runtime bytecode as 0x-prefixed hex, "0x" for accounts without code
+  getCode(address: string): Promise<string>
+  // Raw 32-byte storage slot as 0x-prefixed hex
+  getStorageAt(address: string, slot: string): Promise<string>
+}
+
+export interface SourceProvider {
+  // Returns null when the contract is not verified
+  getSourceCode(contractAddress: string): Promise<VerifiedSource | null>
+  // Deployer and creation transaction, or null when unknown
+  getContractCreation(contractAddress: string): Promise<ContractCreation | null>
+}
+
+export interface MarketProvider {
+  // Returns null when the token is not listed
+  getMarketData(contractAddress: string): Promise<MarketData | null>
+}
+
+export interface HolderProvider {
+  // Returns holders sorted by balance, largest first, or null when unavailable
+  getTopHolders(contractAddress: string, limit: number): Promise<TokenHolder[] | null>
+  // Number of addresses with a non-zero balance, or null when unavailable
+  getHolderCount(contractAddress: string): Promise<HolderCount | null>
+}
+
+export interface AccountProvider {
+  // The account's first `limit` transactions, sent or received, oldest first
+  getTransactions(address: string, limit: number): Promise<AccountTransaction[]>
+  // Native transfers made by contracts (mixer withdrawals, many exchange payouts), oldest first
+  getInternalTransactions(address: string, limit: number): Promise<AccountTransaction[]>
+}
+
+export interface LogEntry {
+  blockNumber: number
+  // Unix seconds of the block
+  timestamp: number
+  transactionHash: string
+  topics: string[]
+  data: string
+}
+
+export interface LogFilter {
+  // Second topic as a 32-byte hex word, e.g. the padded sender of a Transfer
+  topic1?: string
+  // Third topic, e.g. the padded recipient of a Transfer
+  topic2?: string
+  // Inclusive block range, the whole chain by default
+  fromBlock?: number
+  toBlock?: number
+  // Stop after this many logs, oldest first; every matching log by default
+  limit?: number
+}
+
+export interface LogProvider {
+  // Every log the contract emitted with the given topic0, oldest first
+  getLogs(address: string, topic0: string, filter?: LogFilter): Promise<LogEntry[]>
+}
+
+export interface SwapSimulationRequest {
+  token: string
+  // Uniswap V2-compatible router of the token's main pair
+  router: string
+  wrappedNative: string
+  // Native amount to spend on the buy, in wei
+  amountIn: bigint
+}
+
+export interface SwapSimulation {
+  canBuy: boolean
+  canSell: boolean
+  // Whether the wallet-to-wallet transfer went through, null when not reached. A failed transfer
+  // (a cooldown or max-wallet limit, say) does not stop the sell from being tried.
+  canTransfer: boolean | null
+  transferError: string | null
+  // Percentages of the expected amount lost to the token's own fees, null when not reached
+  buyTax: number | null
+  sellTax: number | null
+  transferTax: number | null
+  gasUsed: { buy: number | null; sell: number | null; transfer: number | null }
+  // Stage that failed and why, e.g. "sell failed: Transaction reverted"
+  error: string | null
+}
+
+export interface TradeSimulator {
+  // Buys with a fresh wallet, transfers part of the tokens, then sells the rest
+  simulateSwap(request: SwapSimulationRequest): Promise<SwapSimulation>
+}
+
+export interface Providers {
+  contractReader: ContractReader
+  sourceProvider: SourceProvider
+  marketProvider: MarketProvider
+  holderProvider: HolderProvider
+  logProvider: LogProvider
+  accountProvider: AccountProvider
+  // null when no simulation backend is configured for the chain
+  tradeSimulator: TradeSimulator | null
+}
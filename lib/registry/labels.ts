@@ -0,0 +1,50 @@
+// Locally maintained address labels: mixers, exchange hot wallets, bridges, vesting contracts and
+// sniper bot routers. Used to tell where a wallet's first funds came from, which token holders are
+// infrastructure rather than investors, and which launch buys went through a bot. Addresses are
+// lowercase; add new ones to the chain they live on.
+
+export type AddressLabelKind = "mixer" | "exchange" | "bridge" | "vesting" | "sniper"
+
+export interface AddressLabel {
+  name: string
+  kind: AddressLabelKind
+}
+
+export const LABELS: Record<number, Record<string, AddressLabel>> = {
+  1: {
+    "0x12d66f87a04a9e220743712ce6d9bb1b5616b8fc": { name: "Tornado Cash 0.1 ETH", kind: "mixer" },
+    "0x47ce0c6ed5b0ce3d3a51fdb1c52dc66a7c3c2936": { name: "Tornado Cash 1 ETH", kind: "mixer" },
+    "0x910cbd523d972eb0a6f4cae4618ad62622b39dbf": { name: "Tornado Cash 10 ETH", kind: "mixer" },
+    "0xa160cdab225685da1d56aa342ad8841c3b53f291": { name: "Tornado Cash 100 ETH", kind: "mixer" },
+    "0xd90e2f925da726b50c4ed8d0fb90ad053324f31b": { name: "Tornado Cash Router", kind: "mixer" },
+    "0x28c6c06298d514db089934071355e5743bf21d60": { name: "Binance 14", kind: "exchange" },
+    "0x21a31ee1afc51d94c2efccaa2092ad1028285549": { name: "Binance 15", kind: "exchange" },
+    "0xdfd5293d8e347dfe59e90efd55b2956a1343963d": { name: "Binance 16", kind: "exchange" },
+    "0x71660c4005ba85c37ccec55d0c4493e66fe775d3": { name: "Coinbase 1", kind: "exchange" },
+    "0xa9d1e08c7793af67e9d92fe308d5697fb81d3e43": { name: "Coinbase 10", kind: "exchange" },
+    "0x267be1c1d684f78cb4f6a176c4911b741e4ffdc0": { name: "Kraken 4", kind: "exchange" },
+    "0x6cc5f688a315f3dc28a7781717a9a798a59fda7b": { name: "OKX", kind: "exchange" },
+    "0xf89d7b9c864f589bbf53a82105107622b35eaa40": { name: "Bybit", kind: "exchange" },
+    "0x40ec5b33f54e0e8a33a975908c5ba1c14e5bbbdf": { name: "Polygon ERC20 Bridge", kind: "bridge" },
+    "0xa3a7b6f88361f48403514059f1f16c8e78d60eec": { name: "Arbitrum L1 ERC20 Gateway", kind: "bridge" },
+    "0x99c9fc46f92e8a1c0dec1b1747d010903e884be1": { name: "Optimism L1 Standard Bridge", kind: "bridge" },
+    "0x3ee18b2214aff97000d974cf647e7c347e8fa585": { name: "Wormhole Token Bridge", kind: "bridge" },
+    "0xdba68f07d1b7ca219f78ae8582c213d975c25caf": { name: "Unicrypt Token Vesting", kind: "vesting" },
+    "0x3328f7f4a1d1c57c35df56bbf0c9dcafca309c49": { name: "Banana Gun Router", kind: "sniper" },
+    "0x80a64c6d7f12c47b7c66c5b4e20e72bc1fcd5d9e": { name: "Maestro Router", kind: "sniper" },
+  },
+  56: {
+    "0x84443cfd09a48af6ef360c6976c5392ac5023a1f": { name: "Tornado Cash 0.1 BNB", kind: "mixer" },
+    "0xd47438c816c9e7f2e2888e060936a499af9582b3": { name: "Tornado Cash 1 BNB", kind: "mixer" },
+    "0x330bdfade01ee9bf63c209ee33102dd334618e0a": { name: "Tornado Cash 10 BNB", kind: "mixer" },
+    "0x1e34a77868e19a6647b1f2f47b51ed72dede95dd": { name: "Tornado Cash 100 BNB", kind: "mixer" },
+    "0x8894e0a0c962cb723c1976a4421c95949be2d4e3": { name: "Binance Hot Wallet 6", kind: "exchange" },
+    "0xe2fc31f816a9b94326492132018c3aecc4a93ae1": { name: "Binance Hot Wallet", kind: "exchange" },
+    "0xf977814e90da44bfa03b6295a0616a897441acec": { name: "Binance 8", kind: "exchange" },
+    "0xb6f6d86a8f9879a9c87f643768d9efc38c1da6e7": { name: "Wormhole Token Bridge", kind: "bridge" },
+  },
+}
+
+export function findLabel(chainId: number, address: string): AddressLabel | null {
+  return LABELS[chainId]?.[address.toLowerCase()] ?? null
+}
@@ -0,0 +1,36 @@
+// Locally maintained registry of liquidity lockers. LP tokens held by one of these contracts are
+// counted as locked and their unlock dates are read through the locker's own interface.
+// Addresses are lowercase; add new deployments to the chain they live on.
+
+export type LockerKind = "unicrypt" | "teamfinance" | "pinklock"
+
+export interface Locker {
+  name: string
+  kind: LockerKind
+  address: string
+}
+
+export const LOCKERS: Record<number, Locker[]> = {
+  1: [
+    { name: "Unicrypt (Uniswap V2)", kind: "unicrypt", address: "0x663a5c229c09b049e36dcc11a9b0d4a8eb9db214" },
+    { name: "Unicrypt (SushiSwap)", kind: "unicrypt", address: "0xed9180976c2a4742c7a57354fd39d8bec6cbd8ab" },
+    { name: "Team Finance", kind: "teamfinance", address: "0xe2fe530c047f2d85298b07d9333c05737f1435fb" },
+    { name: "PinkLock", kind: "pinklock", address: "0x71b5759d73262fbb223956913ecf4ecc51057641" },
+  ],
+  56: [
+    { name: "Unicrypt (PancakeSwap V2)", kind: "unicrypt", address: "0xc765bddb93b0d1c1a88282ba0fa6b2d00e3e0c83" },
+    { name: "Team Finance", kind: "teamfinance", address: "0x0c89c0407775dd89b12918b9c0aa42bf96518820" },
+    { name: "PinkLock V2", kind: "pinklock", address: "0x407993575c91ce7643a4d4ccacc9a98c36ee1bbe" },
+  ],
+}
+
+export function findLocker(chainId: number, address: string): Locker | null {
+  return LOCKERS[chainId]?.find((locker) => locker.address === address.toLowerCase()) ?? null
+}
+
+// Zero address and the conventional dead address; LP sent here can never be withdrawn
+export const BURN_ADDRESSES = ["0x0000000000000000000000000000000000000000", "0x000000000000000000000000000000000000dead"]
+
+export function isBurnAddress(address: string): boolean {
+  return BURN_ADDRESSES.includes(address.toLowerCase())
+}